@@ -0,0 +1,107 @@
+import { ValidationError } from './errors.js';
+import { formatTokenCount } from './utils.js';
+
+export type BudgetKind = 'windowTokens' | 'weeklyTokens' | 'cycleTokens' | 'cycleSessions';
+
+export const BUDGET_KINDS: BudgetKind[] = ['windowTokens', 'weeklyTokens', 'cycleTokens', 'cycleSessions'];
+
+const BUDGET_LABELS: Record<BudgetKind, string> = {
+	windowTokens: 'window tokens',
+	weeklyTokens: 'weekly tokens',
+	cycleTokens: 'billing-cycle tokens',
+	cycleSessions: 'billing-cycle sessions',
+};
+
+// Percent of a budget at which to warn, unless the budget sets its own
+export const DEFAULT_BUDGET_THRESHOLDS = [50, 80, 100];
+
+export interface Budget {
+	kind: BudgetKind;
+	limit: number;
+	// Percentages, ascending
+	thresholds: number[];
+}
+
+export interface BudgetStatus extends Budget {
+	used: number;
+	fraction: number;
+	// Start of the window, week or cycle the budget is measured over (null when no window is active)
+	periodStart: number | null;
+}
+
+export interface BudgetAlert {
+	status: BudgetStatus;
+	threshold: number;
+}
+
+type BudgetSetting = number | { limit?: number; thresholds?: number[] };
+
+export type BudgetsConfig = { thresholds?: number[] } & Partial<Record<BudgetKind, BudgetSetting>>;
+
+/**
+ * Validate the `budgets` block from config.json. Each budget is a limit, or `{ limit, thresholds }`
+ * to override the shared thresholds.
+ */
+export function parseBudgets(value: BudgetsConfig): Budget[] {
+	const sharedThresholds = parseThresholds(value.thresholds ?? DEFAULT_BUDGET_THRESHOLDS, 'thresholds');
+
+	const budgets: Budget[] = [];
+	for (const kind of BUDGET_KINDS) {
+		const setting = value[kind];
+		if (setting === undefined) continue;
+
+		const limit = typeof setting === 'number' ? setting : setting.limit;
+		if (typeof limit !== 'number' || !(limit > 0) || !Number.isFinite(limit)) {
+			throw new ValidationError(`Budget ${kind} needs a positive limit`);
+		}
+
+		const thresholds =
+			typeof setting === 'object' && setting.thresholds
+				? parseThresholds(setting.thresholds, `${kind}.thresholds`)
+				: sharedThresholds;
+		budgets.push({ kind, limit, thresholds });
+	}
+
+	for (const key of Object.keys(value)) {
+		if (key !== 'thresholds' && !BUDGET_KINDS.includes(key as BudgetKind)) {
+			throw new ValidationError(`Unknown budget "${key}" (expected ${BUDGET_KINDS.join(', ')})`);
+		}
+	}
+
+	return budgets;
+}
+
+function parseThresholds(thresholds: unknown, label: string): number[] {
+	if (!Array.isArray(thresholds) || thresholds.some((t) => typeof t !== 'number' || !(t > 0))) {
+		throw new ValidationError(`Budget ${label} must be a list of positive percentages`);
+	}
+	return [...new Set(thresholds as number[])].sort((a, b) => a - b);
+}
+
+/**
+ * Thresholds the budget has reached, lowest first
+ */
+export function getCrossedThresholds(status: BudgetStatus): number[] {
+	return status.thresholds.filter((threshold) => status.fraction * 100 >= threshold);
+}
+
+function formatBudgetAmount(kind: BudgetKind, count: number): string {
+	return kind === 'cycleSessions' ? count.toLocaleString() : formatTokenCount(count);
+}
+
+/**
+ * e.g. "84% of window tokens budget used (168k of 200k)"
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+	return `${Math.round(status.fraction * 100)}% of ${BUDGET_LABELS[status.kind]} budget used (${formatBudgetAmount(
+		status.kind,
+		status.used
+	)} of ${formatBudgetAmount(status.kind, status.limit)})`;
+}
+
+/**
+ * Compact form for the in-terminal status, e.g. "window tokens 80%"
+ */
+export function formatBudgetAlertShort(alert: BudgetAlert): string {
+	return `${BUDGET_LABELS[alert.status.kind]} ${alert.threshold}%`;
+}
@@ -0,0 +1,118 @@
+import { formatTokenCount } from './utils.js';
+
+// Rate is measured over the most recent stretch of activity
+const BURN_RATE_WINDOW_MS = 10 * 60 * 1000;
+// A burst inside the first minute shouldn't read as a huge per-minute rate
+const MIN_BURN_RATE_SPAN_MS = 60 * 1000;
+
+/**
+ * Sliding-window tokens-per-minute meter fed with token deltas as they are recorded
+ */
+export class BurnRateMeter {
+	private samples: Array<{ time: number; tokens: number }> = [];
+	private windowMs: number;
+
+	constructor(windowMs: number = BURN_RATE_WINDOW_MS) {
+		this.windowMs = windowMs;
+	}
+
+	record(tokens: number, time: number = Date.now()): void {
+		if (tokens <= 0) return;
+		this.samples.push({ time, tokens });
+		this.prune(time);
+	}
+
+	getTokensPerMinute(now: number = Date.now()): number {
+		this.prune(now);
+		if (this.samples.length === 0) {
+			return 0;
+		}
+
+		const tokens = this.samples.reduce((sum, sample) => sum + sample.tokens, 0);
+		const spanMs = Math.max(MIN_BURN_RATE_SPAN_MS, now - this.samples[0].time);
+		return tokens / (spanMs / 60000);
+	}
+
+	private prune(now: number): void {
+		while (this.samples.length > 0 && this.samples[0].time < now - this.windowMs) {
+			this.samples.shift();
+		}
+	}
+}
+
+export type AllowanceSource = 'configured' | 'learned';
+
+export interface BurnProjection {
+	tokensPerMinute: number;
+	used: number;
+	allowance: number | null;
+	allowanceSource: AllowanceSource | null;
+	// Minutes until the allowance runs out at the current pace (null when idle or unknown)
+	minutesToLimit: number | null;
+	minutesToReset: number;
+	// Whether the allowance runs out before the window resets
+	limitBeforeReset: boolean;
+}
+
+export function projectExhaustion(options: {
+	used: number;
+	tokensPerMinute: number;
+	allowance: number | null;
+	allowanceSource: AllowanceSource | null;
+	endTime: number;
+	now?: number;
+}): BurnProjection {
+	const now = options.now ?? Date.now();
+	const minutesToReset = Math.max(0, (options.endTime - now) / 60000);
+
+	let minutesToLimit: number | null = null;
+	if (options.allowance !== null && options.tokensPerMinute > 0) {
+		minutesToLimit = Math.max(0, options.allowance - options.used) / options.tokensPerMinute;
+	}
+
+	return {
+		tokensPerMinute: options.tokensPerMinute,
+		used: options.used,
+		allowance: options.allowance,
+		allowanceSource: options.allowanceSource,
+		minutesToLimit,
+		minutesToReset,
+		limitBeforeReset: minutesToLimit !== null && minutesToLimit < minutesToReset,
+	};
+}
+
+export function formatDuration(minutes: number): string {
+	const rounded = Math.round(minutes);
+	const hours = Math.floor(rounded / 60);
+	const mins = rounded % 60;
+	return hours > 0 ? `${hours}h${mins.toString().padStart(2, '0')}m` : `${mins}m`;
+}
+
+/**
+ * e.g. "1.2k tokens/min, 168k of 200k (learned allowance) used"
+ */
+export function formatBurnRate(projection: BurnProjection): string {
+	const rate = `${formatTokenCount(Math.round(projection.tokensPerMinute))} tokens/min`;
+	if (projection.allowance === null) {
+		return `${rate}, ${formatTokenCount(projection.used)} used`;
+	}
+	return `${rate}, ${formatTokenCount(projection.used)} of ${formatTokenCount(projection.allowance)} (${
+		projection.allowanceSource
+	} allowance) used`;
+}
+
+/**
+ * e.g. "at this pace you hit the limit in ~1h10m", or null when there is nothing to project
+ */
+export function formatProjection(projection: BurnProjection): string | null {
+	if (projection.allowance === null || projection.minutesToLimit === null) {
+		return null;
+	}
+	if (projection.used >= projection.allowance) {
+		return 'window allowance already used up';
+	}
+	if (!projection.limitBeforeReset) {
+		return 'at this pace the allowance lasts until the window resets';
+	}
+	return `at this pace you hit the limit in ~${formatDuration(projection.minutesToLimit)}`;
+}
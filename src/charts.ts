@@ -0,0 +1,80 @@
+import chalk from 'chalk';
+
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+const BAR_PARTIALS = ['', '▏', '▎', '▍', '▌', '▋', '▊', '▉'];
+// Empty cell first, then increasing intensity; the shades keep levels readable without color
+const HEAT_SHADES = ['·', '░', '▒', '▓', '█'];
+const HEAT_COLORS = ['#545d68', '#0e4429', '#006d32', '#26a641', '#39d353'];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * One character per value, scaled to the largest value, e.g. "▁▃█▅"
+ */
+export function sparkline(values: number[]): string {
+	const max = Math.max(0, ...values);
+	return values
+		.map((value) => (max > 0 ? SPARK_CHARS[Math.round((value / max) * (SPARK_CHARS.length - 1))] : SPARK_CHARS[0]))
+		.join('');
+}
+
+/**
+ * Horizontal bars scaled so the largest value fills `width` columns, with eighth-column precision
+ */
+export function barChart(
+	rows: Array<{ label: string; value: number }>,
+	width: number = 40,
+	formatValue: (value: number) => string = (value) => value.toLocaleString()
+): string[] {
+	const max = Math.max(0, ...rows.map((row) => row.value));
+	const labelWidth = Math.max(0, ...rows.map((row) => row.label.length));
+
+	return rows.map((row) => {
+		const eighths = max > 0 ? Math.round((row.value / max) * width * 8) : 0;
+		const bar = '█'.repeat(Math.floor(eighths / 8)) + BAR_PARTIALS[eighths % 8];
+		return `${row.label.padEnd(labelWidth)} ${chalk.green(bar)} ${formatValue(row.value)}`;
+	});
+}
+
+/**
+ * Colored grid of `matrix[row][hour]`, two columns per hour, with hour marks every three hours
+ */
+export function heatmap(matrix: number[][], rowLabels: string[]): string[] {
+	const max = Math.max(0, ...matrix.flat());
+	const labelWidth = Math.max(0, ...rowLabels.map((label) => label.length));
+
+	const header = HOURS.map((hour) => (hour % 3 === 0 ? hour.toString().padEnd(2) : '  ')).join('');
+	const lines = [`${' '.repeat(labelWidth)} ${header}`];
+
+	matrix.forEach((row, index) => {
+		const cells = row.map((value) => {
+			const level = value > 0 && max > 0 ? Math.ceil((value / max) * (HEAT_SHADES.length - 1)) : 0;
+			return heatCell(level);
+		});
+		lines.push(`${rowLabels[index].padEnd(labelWidth)} ${cells.join('')}`);
+	});
+
+	lines.push(`${' '.repeat(labelWidth)} less ${HEAT_SHADES.map((_, level) => heatCell(level)).join('')} more`);
+	return lines;
+}
+
+function heatCell(level: number): string {
+	return chalk.hex(HEAT_COLORS[level])(HEAT_SHADES[level].repeat(2));
+}
+
+/**
+ * Plain-text version of the heatmap: one count per cell, blank for zero
+ */
+export function heatmapText(matrix: number[][], rowLabels: string[]): string[] {
+	const cellWidth = Math.max(2, ...matrix.flat().map((value) => value.toString().length)) + 1;
+	const labelWidth = Math.max(0, ...rowLabels.map((label) => label.length));
+
+	const header = HOURS.map((hour) => hour.toString().padStart(cellWidth)).join('');
+	const lines = [`${' '.repeat(labelWidth)}${header}`];
+
+	matrix.forEach((row, index) => {
+		const cells = row.map((value) => (value > 0 ? value.toString() : '').padStart(cellWidth));
+		lines.push(`${rowLabels[index].padEnd(labelWidth)}${cells.join('')}`.trimEnd());
+	});
+	return lines;
+}
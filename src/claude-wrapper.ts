@@ -1,13 +1,80 @@
-import { SessionTracker, DetailedAnalytics } from './session-tracker.js';
+import {
+	SessionTracker,
+	BackfillMessage,
+	BackfillResult,
+	DetailedAnalytics,
+	ImportResult,
+	LimitHit,
+	PeriodStats,
+	SessionData,
+	SessionDetail,
+	SessionFilter,
+	SessionWithStats,
+	StatsRange,
+} from './session-tracker.js';
+import { startOfWeek, subDays } from 'date-fns';
 import chalk from 'chalk';
-import { getOrdinalSuffix, formatDate, getPackageVersion } from './utils.js';
+import {
+	getOrdinalSuffix,
+	formatDate,
+	getPackageVersion,
+	formatTokenCount,
+	formatTokenSplit,
+	formatCost,
+	getBillingCycleStart,
+} from './utils.js';
+import { emptyUsage } from './token-usage.js';
 import { randomUUID } from 'crypto';
 import { TokenMonitor } from './token-monitor.js';
 import { TokenLineProcessor } from './token-line-processor.js';
+import { Dashboard } from './dashboard.js';
+import { sparkline } from './charts.js';
+import { ApiServer } from './server.js';
+import { HookRunner } from './hooks.js';
+import type { StatusSnapshot } from './status.js';
+import { isStateFresh, readStateFile } from './state-file.js';
 import * as pty from 'node-pty';
 import configManager from './config.js';
 import logger from './logger.js';
-import { ProcessError } from './errors.js';
+import { ProcessError, ValidationError } from './errors.js';
+import { parseModelArg } from './models.js';
+import { resolveProjectRoot } from './project.js';
+import { formatPeriodLabel } from './periods.js';
+import { formatCapUsage, formatWeeklyReset, type WeeklyUsage } from './weekly-limits.js';
+import { formatBudgetStatus, getCrossedThresholds } from './budgets.js';
+import { formatBurnRate, formatProjection, type BurnProjection } from './burn-rate.js';
+
+const USAGE_LABEL_WIDTH = 20;
+const USAGE_COLUMNS = [
+	{ header: 'sessions used', width: 14 },
+	{ header: 'tokens used', width: 14 },
+	{ header: 'input', width: 10 },
+	{ header: 'output', width: 10 },
+	{ header: 'cache write', width: 13 },
+	{ header: 'cache read', width: 12 },
+	{ header: 'API cost', width: 11 },
+];
+
+function formatUsageHeader(): string {
+	return ' '.repeat(USAGE_LABEL_WIDTH) + USAGE_COLUMNS.map((c) => c.header.padStart(c.width, ' ')).join('');
+}
+
+function formatUsageRow(label: string, stats: PeriodStats): string {
+	const tokens = stats.totalTokens;
+	const values = [stats.sessionCount, tokens.total, tokens.input, tokens.output, tokens.cacheCreation, tokens.cacheRead];
+	const cells = values.map((value, index) =>
+		(index === 0 || value > 0 ? value.toLocaleString() : '-').padStart(USAGE_COLUMNS[index].width, ' ')
+	);
+	const cost = (stats.totalCost > 0 ? formatCost(stats.totalCost) : '-').padStart(
+		USAGE_COLUMNS[USAGE_COLUMNS.length - 1].width,
+		' '
+	);
+	return `${label.padEnd(USAGE_LABEL_WIDTH, ' ')}${cells.join('')}${cost}`;
+}
+
+function formatLimitHit(hit: LimitHit): string {
+	return hit.kind === 'weekly' ? 'weekly limit hit' : `limit hit at ${formatTokenCount(hit.windowTokens)} tokens`;
+}
 
 export interface WrapperOptions {
 	sessionId?: string;
@@ -17,6 +84,8 @@ export interface WrapperOptions {
 export class ClaudeWrapper {
 	private tracker: SessionTracker;
 	private currentSessionId?: string;
+	private currentInstanceId?: string;
+	private hooks?: HookRunner;
 
 	constructor() {
 		this.tracker = new SessionTracker();
@@ -39,6 +108,8 @@ export class ClaudeWrapper {
 		}
 
 		await this.showSessionStart();
+		// Prompts read state.json, so refresh it before Claude starts using tokens
+		await this.tracker.writeStateFile();
 
 		// Build the command arguments
 		const claudeArgs = [...args];
@@ -52,9 +123,31 @@ export class ClaudeWrapper {
 		// Claude handles its own session IDs for resume/continue operations and regular usage
 		// We'll track usage through our wrapper session ID internally
 
+		// Record this launch as its own instance; it is linked to a session once it uses tokens
+		const instance = await this.tracker.createInstance({
+			id: randomUUID(),
+			pid: process.pid,
+			cwd: process.cwd(),
+			project: await resolveProjectRoot(process.cwd()),
+			args: claudeArgs,
+			model: parseModelArg(claudeArgs),
+		});
+		this.currentInstanceId = instance.id;
+
+		// Window and instance events for the hooks in config.json
+		this.hooks = new HookRunner(this.tracker);
+		this.hooks.instanceLaunched(instance);
+		this.hooks.start();
+
 		// Always use PTY for monitoring while preserving interactivity
-		const tokenMonitor = new TokenMonitor(this.currentSessionId, this.tracker);
 		const tokenLineProcessor = new TokenLineProcessor(this.tracker);
+		const tokenMonitor = new TokenMonitor(this.currentSessionId, this.tracker, {
+			instanceId: instance.id,
+			model: instance.model,
+			// Surface budget crossings next to the countdown
+			onBudgetAlert: (alert) => tokenLineProcessor.showBudgetAlert(alert),
+			hooks: this.hooks,
+		});
 
 		const terminalRows = process.stdout.rows || 24;
 		const terminalCols = process.stdout.columns || 80;
@@ -122,7 +215,8 @@ export class ClaudeWrapper {
 			claudePty.onExit(async ({ exitCode }) => {
 				cleanup();
 
-				// Sessions now have fixed end times, no need to update
+				// Sessions now have fixed end times, only the instance needs closing out
+				await this.finishInstance(exitCode);
 
 				await this.showSessionEnd();
 
@@ -145,11 +239,8 @@ export class ClaudeWrapper {
 		});
 	}
 
-	async showStats() {
+	async showStats(range?: StatsRange) {
 		const timeRemaining = await this.tracker.getSessionTimeRemaining();
-		const thirtyDayStats = await this.tracker.get30DayStats();
-		const weeklyStats = await this.tracker.getWeeklyStats();
-		const subscriptionDay = await configManager.getSubscriptionRenewalDay();
 
 		console.log(chalk.cyan('\n📊 Claude Usage Stats\n'));
 
@@ -157,49 +248,113 @@ export class ClaudeWrapper {
 		console.log(chalk.yellow('⏱️  Current Session:'));
 		if (timeRemaining) {
 			console.log(`   Time remaining: ${timeRemaining.hours}h ${timeRemaining.minutes}m`);
+			await this.showBurnProjection();
 		} else {
 			console.log(`   No active Claude Code session`);
 		}
 
+		const weeklyUsage = await this.getWeeklyUsage();
+		if (weeklyUsage) {
+			console.log(chalk.magenta(`\n🗓️  Weekly Limits (reset ${formatWeeklyReset(weeklyUsage.resetsAt)}):`));
+			for (const usage of weeklyUsage.caps) {
+				const line = `   ${formatCapUsage(usage)}`;
+				console.log(usage.fractionUsed >= 1 ? chalk.red(line) : usage.fractionUsed >= 0.8 ? chalk.yellow(line) : line);
+			}
+		}
+
+		if (range) {
+			await this.showRangeStats(range);
+			await this.showLimitHits(range.from, range.to, `${formatDate(range.from)} - ${formatDate(range.to)}`);
+		} else {
+			await this.showPeriodStats();
+			const subscriptionDay = await configManager.getSubscriptionRenewalDay();
+			const cycleStart = new Date(await this.tracker.getCurrentPeriodStart());
+			await this.showLimitHits(cycleStart, new Date(), subscriptionDay ? 'this billing cycle' : 'this month');
+		}
+
+		console.log(chalk.gray('\nAPI cost is an estimate of the equivalent pay-as-you-go spend (override rates in config.json)'));
+	}
+
+	private async showPeriodStats() {
+		const now = new Date();
+		const subscriptionDay = await configManager.getSubscriptionRenewalDay();
+		const thirtyDayStats = await this.tracker.getUsageStats({ from: subDays(now, 30), to: now });
+		const weeklyStats = await this.tracker.getUsageStats({ from: startOfWeek(now, { weekStartsOn: 0 }), to: now }); // Sunday as start
+
 		console.log(chalk.green('\n📅 Session Usage:'));
+		console.log(chalk.gray(formatUsageHeader()));
+		console.log(formatUsageRow('Last 30 days', thirtyDayStats));
+		console.log(formatUsageRow('This calendar week', weeklyStats));
 
-		// Calculate billing cycle stats if subscription day is set
-		let billingStats = null;
+		// Billing cycle stats if subscription day is set
 		if (subscriptionDay) {
-			billingStats = await this.tracker.getBillingCycleStats(subscriptionDay);
+			const billingStats = await this.tracker.getUsageStats({ from: getBillingCycleStart(subscriptionDay, now), to: now });
+			console.log(formatUsageRow('This billing cycle', billingStats));
+		} else {
+			const noUsage = { sessionCount: 0, totalCost: 0, totalTokens: { total: 0, ...emptyUsage() } };
+			console.log(chalk.gray(formatUsageRow('This billing cycle', noUsage) + '  (renewal date not set)'));
 		}
+	}
 
-		// Format the table
-		const formatRow = (label: string, sessions: number, tokens: number) => {
-			const sessionsStr = sessions.toString().padStart(14, ' ');
-			const tokensStr = tokens > 0 ? tokens.toLocaleString().padStart(14, ' ') : '             -';
-			return `${label.padEnd(20, ' ')}${sessionsStr}${tokensStr}`;
-		};
+	private async showRangeStats(range: StatsRange) {
+		const stats = await this.tracker.getUsageStats(range);
+		const grouping = range.groupBy ? ` by ${range.groupBy}` : '';
+
+		console.log(chalk.green(`\n📅 Session Usage ${formatDate(range.from)} - ${formatDate(range.to)}${grouping}:`));
+		console.log(chalk.gray(formatUsageHeader()));
+		const groupBy = range.groupBy;
+		if (groupBy) {
+			for (const group of stats.groups) {
+				const row = formatUsageRow(formatPeriodLabel(groupBy, group.start), group);
+				console.log(group.sessionCount > 0 ? row : chalk.gray(row));
+			}
+		}
+		console.log(chalk.bold(formatUsageRow('Total', stats)));
+	}
 
-		// Table header
-		console.log(chalk.gray('                    sessions used   tokens used'));
+	/**
+	 * How often Claude refused requests at a usage limit, and how many tokens into the window that happened
+	 */
+	private async showLimitHits(from: Date, to: Date, label: string) {
+		const hits = await this.tracker.getLimitHitStats(from, to);
 
-		// 30-day stats
-		const thirtyDayTokens = thirtyDayStats.totalTokens.input + thirtyDayStats.totalTokens.output;
-		console.log(formatRow('Last 30 days', thirtyDayStats.sessionCount, thirtyDayTokens));
+		console.log(chalk.red(`\n🧱 Usage Limit Hits (${label}):`));
+		if (hits.windowHits === 0 && hits.weeklyHits === 0) {
+			console.log('   No limits hit');
+			return;
+		}
+		console.log(`   ${hits.windowHits} window${hits.windowHits !== 1 ? 's' : ''} hit the usage limit`);
+		if (hits.averageTokens !== null && hits.minTokens !== null && hits.maxTokens !== null) {
+			const spread =
+				hits.minTokens === hits.maxTokens
+					? ''
+					: ` (${formatTokenCount(hits.minTokens)} - ${formatTokenCount(hits.maxTokens)})`;
+			console.log(`   Tokens used when hit: ${formatTokenCount(hits.averageTokens)} on average${spread}`);
+		}
+		if (hits.weeklyHits > 0) {
+			console.log(`   Weekly limit hit ${hits.weeklyHits} time${hits.weeklyHits !== 1 ? 's' : ''}`);
+		}
+	}
 
-		// Weekly stats
-		const weeklyTokens = weeklyStats.totalTokens.input + weeklyStats.totalTokens.output;
-		console.log(formatRow('This calendar week', weeklyStats.sessionCount, weeklyTokens));
+	async listRecentSessions(limit: number = 10, filter: SessionFilter = {}) {
+		const sessions = await this.tracker.getSessionsWithStats(limit, filter);
 
-		// Billing cycle stats
-		if (billingStats) {
-			const billingTokens = billingStats.totalTokens.input + billingStats.totalTokens.output;
-			console.log(formatRow('This billing cycle', billingStats.sessionCount, billingTokens));
+		if (filter.since || filter.until) {
+			const from = filter.since ? formatDate(filter.since) : 'the beginning';
+			const to = filter.until ? formatDate(filter.until) : 'now';
+			console.log(chalk.cyan(`\n📋 Sessions from ${from} to ${to}:\n`));
 		} else {
-			console.log(chalk.gray(formatRow('This billing cycle', 0, 0) + '  (renewal date not set)'));
+			console.log(chalk.cyan(`\n📋 Recent Sessions (last ${limit}):\n`));
+		}
+		if (filter.project) {
+			console.log(chalk.gray(`Project: ${filter.project}\n`));
+		}
+		if (sessions.length === 0) {
+			console.log('No sessions found');
+			return;
 		}
-	}
-
-	async listRecentSessions(limit: number = 10) {
-		const sessions = await this.tracker.getSessionsWithStats(limit);
 
-		console.log(chalk.cyan(`\n📋 Recent Sessions (last ${limit}):\n`));
+		const limitHits = await this.tracker.getLimitHits(sessions.map((session) => session.id));
 
 		// Date formatting moved to utils
 
@@ -208,21 +363,135 @@ export class ClaudeWrapper {
 			const startDate = session.startTime;
 			const endDate = session.endTime;
 			const dateRange = `${formatDate(startDate)} - ${formatDate(endDate)}`;
+			const instancesStr = `${session.instanceCount} instance${session.instanceCount !== 1 ? 's' : ''}`;
 			const tokensStr = `${session.totalTokens.toLocaleString()} tokens`;
-
-			return { dateRange, tokensStr };
+			const costStr = formatCost(session.cost);
+			const splitStr = formatTokenSplit(session.tokens);
+			const limitStr = (limitHits.get(session.id) ?? []).map(formatLimitHit).join(', ');
+
+			return {
+				id: session.id.slice(0, 8).padEnd(8),
+				dateRange,
+				instancesStr,
+				tokensStr,
+				costStr,
+				splitStr,
+				limitStr,
+			};
 		});
 
 		// Find max lengths for padding
 		const maxDateLength = Math.max(...processedSessions.map(s => s.dateRange.length));
+		const maxInstancesLength = Math.max(...processedSessions.map(s => s.instancesStr.length));
+		const maxTokensLength = Math.max(...processedSessions.map(s => s.tokensStr.length));
+		const maxCostLength = Math.max(...processedSessions.map(s => s.costStr.length));
 
 		// Print with proper padding
 		for (const session of processedSessions) {
 			const paddedDate = session.dateRange.padEnd(maxDateLength);
-			console.log(`${paddedDate} | ${session.tokensStr}`);
+			const paddedInstances = session.instancesStr.padEnd(maxInstancesLength);
+			const paddedTokens = session.tokensStr.padEnd(maxTokensLength);
+			const paddedCost = session.costStr.padStart(maxCostLength);
+			console.log(
+				`${chalk.gray(session.id)}  ${paddedDate} | ${paddedInstances} | ${paddedTokens} | ${paddedCost} | ${chalk.gray(
+					session.splitStr
+				)}${session.limitStr ? `  ${chalk.red(session.limitStr)}` : ''}`
+			);
+		}
+
+		if (processedSessions.length > 0) {
+			console.log(chalk.gray(`\nRun 'santa-claude sessions show <id>' for a per-instance breakdown`));
+		}
+	}
+
+	async showProjectUsage() {
+		const subscriptionDay = await configManager.getSubscriptionRenewalDay();
+		const projects = await this.tracker.getProjectUsageSince(await this.tracker.getCurrentPeriodStart());
+
+		console.log(chalk.cyan(`\n📁 Usage by project this ${subscriptionDay ? 'billing cycle' : 'month'}:\n`));
+		if (projects.length === 0) {
+			console.log('No project usage recorded yet');
+			return;
+		}
+
+		console.log(chalk.gray(`${'sessions'.padStart(9)}${'instances'.padStart(11)}${'tokens'.padStart(14)}  project`));
+		for (const project of projects) {
+			console.log(
+				`${project.sessionCount.toString().padStart(9)}${project.instanceCount
+					.toString()
+					.padStart(11)}${project.totalTokens.toLocaleString().padStart(14)}  ${project.project}`
+			);
 		}
 	}
 
+	async showSession(idOrPrefix: string) {
+		const session = await this.tracker.getSession(idOrPrefix);
+		if (!session) {
+			console.log(chalk.yellow(`No session found matching "${idOrPrefix}"`));
+			return;
+		}
+
+		const instances = await this.tracker.getInstancesForSession(session.id);
+		const limitHits = (await this.tracker.getLimitHits([session.id])).get(session.id) ?? [];
+
+		console.log(chalk.cyan(`\n📋 Session ${session.id}\n`));
+		console.log(`Window:    ${formatDate(session.startTime)} - ${formatDate(session.endTime)}`);
+		console.log(`Tokens:    ${session.totalTokens.toLocaleString()} (${formatTokenSplit(session.tokens)})`);
+		console.log(`API cost:  ${formatCost(session.cost)} (estimated)`);
+		const usageLine = await this.getSessionUsageLine(session);
+		if (usageLine) {
+			console.log(usageLine);
+		}
+		for (const hit of limitHits) {
+			const limitLine =
+				hit.kind === 'weekly'
+					? `Limit:     weekly limit hit ${formatDate(hit.hitAt)}`
+					: `Limit:     hit ${formatDate(hit.hitAt)} with ${hit.windowTokens.toLocaleString()} tokens used`;
+			console.log(`${chalk.red(limitLine)}  ${chalk.gray(`"${hit.message}"`)}`);
+		}
+		console.log(`Instances: ${instances.length}`);
+
+		if (instances.length === 0) {
+			return;
+		}
+
+		console.log('');
+		for (const instance of instances) {
+			const ended = instance.endTime ? formatDate(instance.endTime) : chalk.green('running');
+			const exitStr = instance.exitCode !== null ? `exit ${instance.exitCode}` : '';
+			console.log(
+				`${chalk.gray(instance.id.slice(0, 8))}  ${formatDate(instance.startTime)} - ${ended}  ${instance.totalTokens
+					.toLocaleString()
+					.padStart(10)} tokens  ${exitStr}`
+			);
+			console.log(chalk.gray(`          pid ${instance.pid ?? '-'}  model ${instance.model}  ${instance.cwd ?? ''}`));
+			if (instance.project && instance.project !== instance.cwd) {
+				console.log(chalk.gray(`          project ${instance.project}`));
+			}
+			console.log(chalk.gray(`          ${formatTokenSplit(instance.tokens)}`));
+			if (instance.args.length > 0) {
+				console.log(chalk.gray(`          claude ${instance.args.join(' ')}`));
+			}
+		}
+	}
+
+	/**
+	 * Tokens per 5 minutes across the window so far, e.g. "Usage:     ▁▃█▅  peak 12.3k per 5 min".
+	 * Null for windows without token samples (older, imported or backfilled ones).
+	 */
+	private async getSessionUsageLine(session: SessionWithStats): Promise<string | null> {
+		if (session.startTime.getTime() >= Date.now()) {
+			return null;
+		}
+
+		const series = await this.tracker.getTokenSeries({ sessionId: session.id, to: new Date() }, 5);
+		const tokens = series.map((point) => point.totalTokens.total);
+		if (!tokens.some((value) => value > 0)) {
+			return null;
+		}
+		return `Usage:     ${chalk.green(sparkline(tokens))}  peak ${formatTokenCount(Math.max(...tokens))} per 5 min`;
+	}
+
 	async purgeSessionsKeepLatest(keep: number): Promise<number> {
 		return this.tracker.purgeSessionsKeepLatest(keep);
 	}
@@ -251,7 +520,21 @@ export class ClaudeWrapper {
 		}
 
 		// Always show weekly count
-		console.log(chalk.dim(`   ${weeklySessionCount} sessions used so far this calendar week\n`));
+		console.log(chalk.dim(`   ${weeklySessionCount} sessions used so far this calendar week`));
+
+		try {
+			const weeklyUsage = await this.getWeeklyUsage();
+			if (weeklyUsage) {
+				for (const usage of weeklyUsage.caps) {
+					console.log(chalk.dim(`   Weekly ${formatCapUsage(usage)}`));
+				}
+				console.log(chalk.dim(`   Weekly limits reset ${formatWeeklyReset(weeklyUsage.resetsAt)}`));
+			}
+		} catch (error) {
+			// A config mistake shouldn't stop Claude from starting
+			logger.warn(`Weekly limits unavailable: ${(error as Error).message}`);
+		}
+		console.log('');
 
 		// Show subscription renewal reminder if not set
 		if (!subscriptionDay) {
@@ -263,6 +546,11 @@ export class ClaudeWrapper {
 		}
 	}
 
+	private async getWeeklyUsage(): Promise<WeeklyUsage | null> {
+		const limits = await configManager.getWeeklyLimits();
+		return limits ? this.tracker.getWeeklyUsage(limits) : null;
+	}
+
 	private async showSessionEnd() {
 		const timeRemaining = await this.tracker.getSessionTimeRemaining();
 		if (timeRemaining) {
@@ -272,17 +560,169 @@ export class ClaudeWrapper {
 		} else {
 			logger.info(chalk.gray(`\n👋🎅 Session ended\n`));
 		}
+
+		await this.showBudgetWarnings();
+	}
+
+	/**
+	 * Warn about every budget past its first threshold
+	 */
+	private async showBudgetWarnings() {
+		try {
+			const budgets = await configManager.getBudgets();
+			const statuses = await this.tracker.getBudgetStatuses(budgets);
+			for (const status of statuses.filter((s) => getCrossedThresholds(s).length > 0)) {
+				const warning = `⚠️  ${formatBudgetStatus(status)}`;
+				logger.info(status.fraction >= 1 ? chalk.red(warning) : chalk.yellow(warning));
+			}
+		} catch (error) {
+			logger.warn(`Budgets unavailable: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Burn rate of the active window and whether it outlasts the allowance
+	 */
+	async showBurnProjection() {
+		const projection = await this.getBurnProjection();
+		if (!projection) {
+			return;
+		}
+
+		console.log(`   Burn rate: ${formatBurnRate(projection)}`);
+		const outlook = formatProjection(projection);
+		if (outlook) {
+			console.log(`   ${projection.limitBeforeReset ? chalk.yellow(outlook) : outlook}`);
+		}
+	}
+
+	/**
+	 * Live dashboard; returns when the user quits
+	 */
+	async watch(): Promise<void> {
+		await new Dashboard(this.tracker).run();
+	}
+
+	/**
+	 * Serve the local HTTP API until interrupted
+	 */
+	async serve(port: number): Promise<void> {
+		const server = new ApiServer(this.tracker);
+		const url = await server.listen(port);
+
+		console.log(chalk.cyan(`\n🎅 Santa Claude API listening on ${url}\n`));
+		const endpoints = ['/api/active', '/api/stats', '/api/sessions', '/api/series', '/api/analytics', '/metrics'];
+		for (const endpoint of endpoints) {
+			console.log(`   ${url}${endpoint}`);
+		}
+		console.log(chalk.gray('\nPress Ctrl-C to stop'));
+
+		await new Promise<void>((resolve) => {
+			process.once('SIGINT', resolve);
+			process.once('SIGTERM', resolve);
+		});
+		await server.close();
+	}
+
+	async getStatusSnapshot(): Promise<StatusSnapshot> {
+		return this.tracker.getStatusSnapshot();
+	}
+
+	/**
+	 * The snapshot in state.json if it is still current. Doesn't need initialize(): nothing touches the database.
+	 */
+	async readFreshState(): Promise<StatusSnapshot | null> {
+		const filePath = this.tracker.getStateFilePath();
+		const snapshot = filePath ? await readStateFile(filePath) : null;
+		if (!snapshot || !(await isStateFresh(snapshot, this.tracker.getDatabasePath()))) {
+			return null;
+		}
+		return snapshot;
+	}
+
+	async writeStateFile(snapshot?: StatusSnapshot): Promise<void> {
+		return this.tracker.writeStateFile(snapshot);
+	}
+
+	async getBurnProjection(): Promise<BurnProjection | null> {
+		return this.tracker.getBurnProjection();
 	}
 
 	async getSessionTimeRemaining() {
 		return this.tracker.getSessionTimeRemaining();
 	}
 
+	async getSessionDetails(filter: SessionFilter = {}): Promise<SessionDetail[]> {
+		return this.tracker.getSessionDetails(filter);
+	}
+
+	async importSessions(sessions: SessionDetail[]): Promise<ImportResult> {
+		return this.tracker.importSessions(sessions);
+	}
+
+	async backfillMessages(messages: BackfillMessage[]): Promise<BackfillResult> {
+		return this.tracker.backfillMessages(messages);
+	}
+
+	/**
+	 * A session by ID or ID prefix, or the active window when none is given
+	 */
+	async resolveSession(idOrPrefix?: string): Promise<SessionWithStats> {
+		const id = idOrPrefix ?? (await this.tracker.getActiveSession())?.id;
+		if (!id) {
+			throw new ValidationError('No active window (pass --session <id> to pick one)');
+		}
+
+		const session = await this.tracker.getSession(id);
+		if (!session) {
+			throw new ValidationError(`No session found matching "${id}"`);
+		}
+		return session;
+	}
+
+	async startSessionAt(startTime: Date): Promise<SessionData> {
+		return this.tracker.startSessionAt(startTime);
+	}
+
+	async updateSessionWindow(sessionId: string, startTime: Date, endTime: Date): Promise<SessionData> {
+		return this.tracker.updateSessionWindow(sessionId, startTime, endTime);
+	}
+
+	async updateSessionTokens(sessionId: string, totalTokens: number): Promise<void> {
+		return this.tracker.updateSessionTokens(sessionId, totalTokens);
+	}
+
+	async deleteSession(sessionId: string): Promise<boolean> {
+		return this.tracker.deleteSession(sessionId);
+	}
+
 	async getDetailedAnalytics(): Promise<DetailedAnalytics> {
 		return this.tracker.getDetailedAnalytics();
 	}
 
+	private async finishInstance(exitCode: number | null) {
+		if (!this.currentInstanceId) return;
+
+		const instanceId = this.currentInstanceId;
+		this.currentInstanceId = undefined;
+		try {
+			await this.tracker.finishInstance(instanceId, exitCode);
+		} catch (error) {
+			logger.debug('Failed to record instance exit:', error);
+		}
+		// This instance's burn rate no longer counts
+		await this.tracker.writeStateFile();
+
+		if (this.hooks) {
+			this.hooks.instanceExited(instanceId);
+			await this.hooks.stop();
+			this.hooks = undefined;
+		}
+	}
+
 	async close() {
+		// Instance interrupted before Claude exited (e.g. SIGINT) - record the end without an exit code
+		await this.finishInstance(null);
 		await this.tracker.close();
 	}
 }
@@ -7,14 +7,42 @@ import chalk from 'chalk';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as readline from 'readline';
-import { getOrdinalSuffix, getPackageVersion } from './utils.js';
+import {
+	formatCost,
+	formatDate,
+	formatTokenCount,
+	getOrdinalSuffix,
+	getPackageVersion,
+	parseDateOption,
+	parseTimeOption,
+} from './utils.js';
 import logger from './logger.js';
 import { ProcessError, ValidationError } from './errors.js';
+import { resolveProjectRoot } from './project.js';
+import { formatExport, parseExportFormat } from './exporter.js';
+import { readImportFile } from './importer.js';
+import { parseStatsGrouping, STATS_GROUPINGS } from './periods.js';
+import type { SessionData, StatsRange } from './session-tracker.js';
+import { format, parseISO, subDays } from 'date-fns';
+import { getTranscriptDirs, scanTranscripts } from './transcripts.js';
+import { formatWindowAlignment, parseWindowAlignment, WINDOW_ALIGNMENT_STRATEGIES } from './session-window.js';
+import { barChart, heatmap, heatmapText, sparkline } from './charts.js';
+import { DEFAULT_SERVER_PORT } from './server.js';
+import { formatStatus, parseStatuslineInput, parseStatusFormat, STATUS_PLACEHOLDERS } from './status.js';
+import fs from 'fs/promises';
 
 const execAsync = promisify(exec);
 
 const wrapper = new ClaudeWrapper();
 
+// Upper limit getSessionsWithStats accepts, used to list everything in a date range
+const MAX_SESSIONS_LISTED = 1000;
+
+// Claude Code pipes its JSON and closes stdin straight away; don't hang if nothing arrives
+const STDIN_TIMEOUT_MS = 1000;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 program
 	.name('santa-claude')
 	.description('Claude Code wrapper with usage tracking')
@@ -26,12 +54,31 @@ program
 Commands:
   santa-claude [args...]          Start Claude with tracking (passes args to Claude)
   santa-claude stats              Show detailed usage statistics
+  santa-claude stats --by-project Show usage per project
+  santa-claude stats --from <date> --to <date> --group-by <period>
+                                  Usage for a date range by hour, day, week, month or billing-cycle
   santa-claude sessions           List recent sessions
+  santa-claude sessions show <id> Show per-instance breakdown of a session
+  santa-claude sessions --project <path>  List sessions used from a project
+  santa-claude sessions --since <date> --until <date>  List sessions in a date range
+  santa-claude session start|end|extend|shift|set-tokens|delete
+                                  Correct a window by hand
   santa-claude status             Show running instances
+  santa-claude watch              Live dashboard that redraws as usage changes
+  santa-claude serve [--port <n>] Local HTTP API with JSON endpoints and Prometheus /metrics
+  santa-claude statusline         Status line for Claude Code's statusLine setting
+  santa-claude prompt             Short segment for shell prompts and tmux (reads state.json)
   santa-claude update-session-length  Update the session window length
   santa-claude gc [keep]          Purge old sessions, keeping last N (default 100)
   santa-claude set-subscription-date <day>  Set your billing cycle renewal day
+  santa-claude set-window-alignment <strategy> [minutes]
+                                  Start windows exactly, on the hour, or every N minutes
   santa-claude log-stats          Show log file statistics and cleanup info
+  santa-claude export [-f csv|json|ndjson] [--since] [--until] [-o file]
+                                  Export sessions for spreadsheets and dashboards
+  santa-claude import <file>      Merge another machine's sessions.db or export file
+  santa-claude backfill [--dir <path>] [--since <date>]
+                                  Reconstruct sessions from Claude Code's transcripts
 
 Claude Arguments:
   All arguments are passed directly to Claude Code. Common examples:
@@ -65,7 +112,7 @@ Examples:
 // Add standalone commands instead of options
 program
 	.command('status')
-	.description('Show running instances')
+	.description('Show running instances, time remaining and burn rate')
 	.action(async () => {
 		await showStatus();
 		process.exit(0);
@@ -127,15 +174,35 @@ program
 program
 	.command('stats')
 	.description('Show detailed usage statistics')
-	.action(async () => {
+	.option('--by-project', 'Break usage down by project (git root of where Claude was launched)')
+	.option('--from <date>', 'Start of the range to report (YYYY-MM-DD or ISO timestamp, default 30 days ago)')
+	.option('--to <date>', 'End of the range to report, inclusive for YYYY-MM-DD (default now)')
+	.option('--group-by <period>', `Break the range down by ${STATS_GROUPINGS.join(', ')}`)
+	.action(async (options: { byProject?: boolean; from?: string; to?: string; groupBy?: string }) => {
 		try {
+			let range: StatsRange | undefined;
+			if (options.from || options.to || options.groupBy) {
+				const to = options.to ? parseDateOption(options.to, { endOfDay: true }) : new Date();
+				range = {
+					from: options.from ? parseDateOption(options.from) : subDays(to, 30),
+					to,
+					groupBy: options.groupBy ? parseStatsGrouping(options.groupBy) : undefined,
+				};
+			}
+
 			await wrapper.initialize();
-			await wrapper.showStats();
+			await wrapper.showStats(range);
+
+			if (options.byProject) {
+				await wrapper.showProjectUsage();
+			}
 
 			// Show extended analytics
 			console.log(chalk.cyan('\n📈 Detailed Analytics:\n'));
 
 			const analytics = await wrapper.getDetailedAnalytics();
+			// Charts need a terminal; piped output gets plain text
+			const charts = Boolean(process.stdout.isTTY);
 
 			if (analytics.mostActiveHour !== undefined) {
 				console.log(`Hour most sessions started: ${analytics.mostActiveHour}:00`);
@@ -145,21 +212,47 @@ program
 				console.log(`Day most sessions started: ${analytics.mostActiveDay}`);
 			}
 
+			if (analytics.activityMatrix.some((day) => day.some((count) => count > 0))) {
+				console.log('\nSession starts by weekday and hour (last 4 weeks):');
+				const grid = charts
+					? heatmap(analytics.activityMatrix, WEEKDAY_LABELS)
+					: heatmapText(analytics.activityMatrix, WEEKDAY_LABELS);
+				grid.forEach((line) => console.log(`  ${line}`));
+			}
+
 			// Only show model usage if we have meaningful data
 			const knownModels = analytics.modelUsage.filter((m) => m.model !== 'unknown');
 			if (knownModels.length > 0) {
-				console.log('\nModel usage (when specified):');
-				knownModels.forEach((m) => {
-					console.log(`  ${m.model}: ${m.count} sessions`);
+				const subscriptionDay = await configManager.getSubscriptionRenewalDay();
+				console.log(`\nModel usage this ${subscriptionDay ? 'billing cycle' : 'month'}:`);
+				analytics.modelUsage.forEach((m) => {
+					const tokensStr = m.totalTokens > 0 ? `, ${m.totalTokens.toLocaleString()} tokens` : '';
+					const costStr = m.cost > 0 ? `, ~${formatCost(m.cost)} API cost` : '';
+					const label = m.model === 'unknown' ? 'default (not specified)' : m.model;
+					console.log(`  ${label}: ${m.count} session${m.count !== 1 ? 's' : ''}${tokensStr}${costStr}`);
 				});
 			}
 
-			if (analytics.dailyUsage.length > 0) {
+			const lastWeek = analytics.dailyUsage.slice(-7);
+			if (charts && analytics.dailyUsage.some((d) => d.sessions > 0)) {
+				const tokens = analytics.dailyUsage.map((d) => d.totalTokens);
+				const sessions = analytics.dailyUsage.map((d) => d.sessions);
+				console.log(`\nLast ${analytics.dailyUsage.length} days:`);
+				console.log(`  tokens   ${chalk.green(sparkline(tokens))}  peak ${formatTokenCount(Math.max(...tokens))}/day`);
+				console.log(`  sessions ${chalk.green(sparkline(sessions))}  peak ${Math.max(...sessions)}/day`);
+
 				console.log('\nLast 7 days:');
-				analytics.dailyUsage.forEach((d) => {
-					const tokensStr = d.totalTokens > 0 ? `, ${d.totalTokens.toLocaleString()} tokens` : '';
-					console.log(`  ${d.date}: ${d.sessions} sessions${tokensStr}`);
-				});
+				const bars = lastWeek.map((d) => ({ label: format(parseISO(d.date), 'EEE MM-dd'), value: d.totalTokens }));
+				barChart(bars, 40, formatTokenCount).forEach((line) => console.log(`  ${line}`));
+			} else if (lastWeek.some((d) => d.sessions > 0)) {
+				console.log('\nLast 7 days:');
+				[...lastWeek]
+					.reverse()
+					.filter((d) => d.sessions > 0)
+					.forEach((d) => {
+						const tokensStr = d.totalTokens > 0 ? `, ${d.totalTokens.toLocaleString()} tokens` : '';
+						console.log(`  ${d.date}: ${d.sessions} sessions${tokensStr}`);
+					});
 			}
 		} catch (error) {
 			logger.error('Error occurred', error);
@@ -170,15 +263,74 @@ program
 		}
 	});
 
-program
+const sessionsCommand = program
 	.command('sessions [count]')
 	.description('List recent sessions with token usage')
-	.action(async count => {
+	.option('--project <path>', 'Only sessions used from this project (any path inside it)')
+	.option('--since <date>', 'Only sessions started on or after this date (YYYY-MM-DD or ISO timestamp)')
+	.option('--until <date>', 'Only sessions started before the end of this date')
+	.action(async (count: string | undefined, options: { project?: string; since?: string; until?: string }) => {
+		try {
+			const since = options.since ? parseDateOption(options.since) : undefined;
+			const until = options.until ? parseDateOption(options.until, { endOfDay: true }) : undefined;
+
+			await wrapper.initialize();
+			// Use positional argument if provided, otherwise default to 10 (or everything in a date range)
+			const sessionCount = count ? parseInt(count) : since || until ? MAX_SESSIONS_LISTED : 10;
+			const project = options.project ? await resolveProjectRoot(options.project) : undefined;
+			await wrapper.listRecentSessions(sessionCount, { project, since, until });
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+sessionsCommand
+	.command('show <id>')
+	.description('Show a session with a breakdown of every instance that joined it')
+	.action(async (id: string) => {
+		try {
+			await wrapper.initialize();
+			await wrapper.showSession(id);
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+function parseMinutes(value: string): number {
+	const minutes = Number(value);
+	if (!Number.isInteger(minutes) || minutes < 1) {
+		throw new ValidationError('Minutes must be a positive whole number');
+	}
+	return minutes;
+}
+
+function formatWindow(session: SessionData): string {
+	return `${formatDate(session.startTime)} - ${formatDate(session.endTime)}`;
+}
+
+const sessionCommand = program
+	.command('session')
+	.description('Correct a window by hand when automatic detection got it wrong');
+
+sessionCommand
+	.command('start')
+	.description('Open a window now, or at an earlier time with --at')
+	.option('--at <time>', 'Start time (HH:mm today or an ISO timestamp)')
+	.action(async (options: { at?: string }) => {
 		try {
+			const startTime = options.at ? parseTimeOption(options.at) : new Date();
+
 			await wrapper.initialize();
-			// Use positional argument if provided, otherwise default to 10
-			const sessionCount = count ? parseInt(count) : 10;
-			await wrapper.listRecentSessions(sessionCount);
+			const session = await wrapper.startSessionAt(startTime);
+			console.log(chalk.green(`✅ Started session ${session.id.slice(0, 8)}: ${formatWindow(session)}`));
 		} catch (error) {
 			logger.error('Error occurred', error);
 			process.exit(1);
@@ -188,6 +340,143 @@ program
 		}
 	});
 
+sessionCommand
+	.command('end')
+	.description('End a window early (the active one unless --session is given)')
+	.option('--session <id>', 'Session ID or ID prefix')
+	.option('--at <time>', 'End time (HH:mm today or an ISO timestamp, default now)')
+	.action(async (options: { session?: string; at?: string }) => {
+		try {
+			const endTime = options.at ? parseTimeOption(options.at) : new Date();
+
+			await wrapper.initialize();
+			const session = await wrapper.resolveSession(options.session);
+			if (endTime.getTime() >= session.endTime.getTime()) {
+				throw new ValidationError(
+					`Session already ends ${formatDate(session.endTime)}; use extend to lengthen it`
+				);
+			}
+			const updated = await wrapper.updateSessionWindow(session.id, session.startTime, endTime);
+			console.log(chalk.green(`✅ Ended session ${session.id.slice(0, 8)}: ${formatWindow(updated)}`));
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+sessionCommand
+	.command('extend <minutes>')
+	.description("Move a window's end later (the active one unless --session is given)")
+	.option('--session <id>', 'Session ID or ID prefix')
+	.action(async (minutes: string, options: { session?: string }) => {
+		try {
+			const extraMs = parseMinutes(minutes) * 60000;
+
+			await wrapper.initialize();
+			const session = await wrapper.resolveSession(options.session);
+			const updated = await wrapper.updateSessionWindow(
+				session.id,
+				session.startTime,
+				new Date(session.endTime.getTime() + extraMs)
+			);
+			console.log(chalk.green(`✅ Extended session ${session.id.slice(0, 8)}: ${formatWindow(updated)}`));
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+sessionCommand
+	.command('shift <minutes>')
+	.description('Move a whole window later, or earlier with --earlier (the active one unless --session is given)')
+	.option('--session <id>', 'Session ID or ID prefix')
+	.option('--earlier', 'Move the window back instead of forward')
+	.action(async (minutes: string, options: { session?: string; earlier?: boolean }) => {
+		try {
+			const offsetMs = parseMinutes(minutes) * 60000 * (options.earlier ? -1 : 1);
+
+			await wrapper.initialize();
+			const session = await wrapper.resolveSession(options.session);
+			const updated = await wrapper.updateSessionWindow(
+				session.id,
+				new Date(session.startTime.getTime() + offsetMs),
+				new Date(session.endTime.getTime() + offsetMs)
+			);
+			console.log(chalk.green(`✅ Shifted session ${session.id.slice(0, 8)}: ${formatWindow(updated)}`));
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+sessionCommand
+	.command('set-tokens <tokens>')
+	.description("Overwrite a window's token total (the active one unless --session is given)")
+	.option('--session <id>', 'Session ID or ID prefix')
+	.action(async (tokens: string, options: { session?: string }) => {
+		try {
+			const totalTokens = Number(tokens);
+			if (!Number.isInteger(totalTokens) || totalTokens < 0) {
+				throw new ValidationError('Tokens must be a non-negative whole number');
+			}
+
+			await wrapper.initialize();
+			const session = await wrapper.resolveSession(options.session);
+			await wrapper.updateSessionTokens(session.id, totalTokens);
+			const change = `${session.totalTokens.toLocaleString()} → ${totalTokens.toLocaleString()}`;
+			console.log(chalk.green(`✅ Session ${session.id.slice(0, 8)} tokens: ${change}`));
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+sessionCommand
+	.command('delete <id>')
+	.description('Delete one session and the instances, model usage and samples recorded against it')
+	.option('-y, --yes', 'Skip the confirmation prompt')
+	.action(async (id: string, options: { yes?: boolean }) => {
+		let rl: readline.Interface | undefined;
+		try {
+			await wrapper.initialize();
+			const session = await wrapper.resolveSession(id);
+
+			if (!options.yes) {
+				rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+				const summary = `${formatWindow(session)}, ${session.totalTokens.toLocaleString()} tokens`;
+				const prompt = `Delete session ${session.id} (${summary})? Type (y) to confirm or (n) to cancel: `;
+				const answer = await new Promise<string>(resolve => rl?.question(prompt, resolve));
+				const normalized = answer.trim().toLowerCase();
+				if (normalized !== 'y' && normalized !== 'yes') {
+					console.log(chalk.yellow('Canceled. Nothing was deleted.'));
+					return;
+				}
+			}
+
+			await wrapper.deleteSession(session.id);
+			console.log(chalk.green(`✅ Deleted session ${session.id.slice(0, 8)}`));
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		} finally {
+			rl?.close();
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
 program
 	.command('update-session-length')
 	.description('Update the session window length')
@@ -225,6 +514,23 @@ program
 		}
 	});
 
+program
+	.command('set-window-alignment <strategy> [minutes]')
+	.description(`Set how new session windows start (${WINDOW_ALIGNMENT_STRATEGIES.join(', ')})`)
+	.action(async (strategy: string, minutes: string | undefined) => {
+		try {
+			const alignment = parseWindowAlignment(strategy, minutes !== undefined ? Number(minutes) : undefined);
+
+			await configManager.setWindowAlignment(alignment);
+			console.log(chalk.green(`✅ Window alignment set to: ${formatWindowAlignment(alignment)}`));
+			console.log(chalk.gray('New session windows (and backfilled ones) will start on this boundary'));
+			process.exit(0);
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		}
+	});
+
 // Helper functions
 
 async function updateSessionLength() {
@@ -272,6 +578,29 @@ async function updateSessionLength() {
 	}
 }
 
+/**
+ * Everything piped to stdin, or '' when run from a terminal or nothing arrives in time
+ */
+function readStdin(): Promise<string> {
+	if (process.stdin.isTTY) {
+		return Promise.resolve('');
+	}
+
+	return new Promise((resolve) => {
+		let data = '';
+		const finish = () => {
+			clearTimeout(timer);
+			process.stdin.pause();
+			resolve(data);
+		};
+		const timer = setTimeout(finish, STDIN_TIMEOUT_MS);
+		process.stdin.setEncoding('utf-8');
+		process.stdin.on('data', (chunk: string) => (data += chunk));
+		process.stdin.once('end', finish);
+		process.stdin.once('error', finish);
+	});
+}
+
 async function showStatus() {
 	console.log(chalk.cyan('\n🎅 Santa Claude Status\n'));
 
@@ -295,11 +624,110 @@ async function showStatus() {
 		console.log(
 			`\nActive session: ${chalk.yellow(timeRemaining.hours + 'h ' + timeRemaining.minutes + 'm')} remaining`
 		);
+		await wrapper.showBurnProjection();
 	} else {
 		console.log('\nNo active session');
 	}
 	await wrapper.close();
 }
+program
+	.command('watch')
+	.description('Full-screen dashboard of the active window, instances and recent sessions')
+	.action(async () => {
+		try {
+			await wrapper.initialize();
+			await wrapper.watch();
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+program
+	.command('serve')
+	.description('Serve usage as JSON and Prometheus metrics on localhost')
+	.option('-p, --port <port>', `Port to listen on (default ${DEFAULT_SERVER_PORT})`)
+	.action(async (options: { port?: string }) => {
+		try {
+			const port = options.port ? Number(options.port) : DEFAULT_SERVER_PORT;
+			if (!Number.isInteger(port) || port < 1 || port > 65535) {
+				throw new ValidationError('Port must be a whole number between 1 and 65535');
+			}
+
+			await wrapper.initialize();
+			await wrapper.serve(port);
+		} catch (error) {
+			logger.error('Error occurred', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+program
+	.command('statusline')
+	.description("Print a status line for Claude Code's statusLine setting (reads Claude's JSON on stdin)")
+	.option('--format <format>', `Line while a window is active, using ${STATUS_PLACEHOLDERS.map((p) => `{${p}}`).join(' ')}`)
+	.option('--idle-format <format>', 'Line when no window is active')
+	.action(async (options: { format?: string; idleFormat?: string }) => {
+		try {
+			const context = parseStatuslineInput(await readStdin());
+			const formats = await configManager.getStatuslineFormats();
+			if (options.format) formats.format = parseStatusFormat(options.format);
+			if (options.idleFormat) formats.idleFormat = parseStatusFormat(options.idleFormat);
+
+			await wrapper.initialize();
+			console.log(formatStatus(await wrapper.getStatusSnapshot(), formats, context));
+		} catch (error) {
+			// Claude Code shows whatever we print, so keep failures to one short line
+			console.log(`🎅 ${(error as Error).message}`);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+program
+	.command('prompt')
+	.description('Print a short segment for shell prompts and tmux, read from state.json instead of the database')
+	.option(
+		'--format <format>',
+		`Segment while a window is active, using ${STATUS_PLACEHOLDERS.map((p) => `{${p}}`).join(' ')}`
+	)
+	.option('--idle-format <format>', 'Segment when no window is active (default: print nothing)')
+	.action(async (options: { format?: string; idleFormat?: string }) => {
+		let exitCode = 0;
+		try {
+			const formats = await configManager.getPromptFormats();
+			if (options.format) formats.format = parseStatusFormat(options.format);
+			if (options.idleFormat) formats.idleFormat = parseStatusFormat(options.idleFormat);
+
+			let snapshot = await wrapper.readFreshState();
+			if (!snapshot) {
+				// Missing or stale: query once and leave a fresh file for the next prompt
+				await wrapper.initialize();
+				snapshot = await wrapper.getStatusSnapshot();
+				await wrapper.writeStateFile(snapshot);
+			}
+
+			const segment = formatStatus(snapshot, formats, { dir: process.cwd() });
+			if (segment) {
+				console.log(segment);
+			}
+		} catch (error) {
+			// A prompt is redrawn constantly, so stay quiet and leave the error to the exit code and log
+			logger.debug('Failed to render prompt segment:', error);
+			exitCode = 1;
+		} finally {
+			await wrapper.close();
+			process.exit(exitCode);
+		}
+	});
+
 // Maintenance: purge old sessions, keeping N most recent
 program
 	.command('gc [keep]')
@@ -334,6 +762,112 @@ program
 		}
 	});
 
+program
+	.command('export')
+	.description('Export sessions with per-instance and per-model token detail')
+	.option('-f, --format <format>', 'Output format: csv, json or ndjson', 'json')
+	.option('--since <date>', 'Only sessions that started on or after this date (YYYY-MM-DD or ISO timestamp)')
+	.option('--until <date>', 'Only sessions that started on or before this date (YYYY-MM-DD or ISO timestamp)')
+	.option('-o, --output <file>', 'Write to a file instead of stdout')
+	.option('--instances', 'CSV only: write one row per instance instead of one per session')
+	.action(async (options: { format: string; since?: string; until?: string; output?: string; instances?: boolean }) => {
+		try {
+			const format = parseExportFormat(options.format);
+			const since = options.since ? parseDateOption(options.since) : undefined;
+			const until = options.until ? parseDateOption(options.until, { endOfDay: true }) : undefined;
+
+			await wrapper.initialize();
+			const sessions = await wrapper.getSessionDetails({ since, until });
+			const output = formatExport(sessions, format, { instances: options.instances });
+
+			if (options.output) {
+				await fs.writeFile(options.output, output);
+				// Report on stderr so the summary never mixes with piped data
+				console.error(chalk.green(`✅ Exported ${sessions.length} session(s) to ${options.output}`));
+			} else {
+				// Wait for the write to flush before process.exit so piped output isn't truncated
+				await new Promise<void>(resolve => process.stdout.write(output, () => resolve()));
+			}
+		} catch (error) {
+			logger.error('Export failed', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+program
+	.command('import <file>')
+	.description("Merge another machine's sessions.db or a JSON/NDJSON export into the local database")
+	.action(async (file: string) => {
+		try {
+			const sessions = await readImportFile(file);
+
+			await wrapper.initialize();
+			const result = await wrapper.importSessions(sessions);
+
+			console.log(chalk.green(`✅ Imported ${sessions.length} session(s) from ${file}`));
+			console.log(`   ${result.added} added as new sessions`);
+			console.log(`   ${result.merged} merged into overlapping local sessions`);
+			console.log(`   ${result.updated} updated with usage added since the last import`);
+			console.log(`   ${result.skipped} skipped (unchanged since the last import, or recorded here)`);
+			if (result.conflicting > 0) {
+				console.log(
+					chalk.yellow(`   ${result.conflicting} not imported: merging would overlap several local sessions`)
+				);
+				console.log(chalk.gray(`     ${result.conflictingIds.join(', ')}`));
+			}
+			console.log(chalk.gray(`   ${result.instancesAdded} instance record(s) added`));
+		} catch (error) {
+			logger.error('Import failed', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
+// Add backfill command
+program
+	.command('backfill')
+	.description("Reconstruct sessions and per-message usage from Claude Code's local transcripts")
+	.option('--dir <path>', 'Transcript directory to read (default: Claude Code projects directories)')
+	.option('--since <date>', 'Only backfill messages from this date (YYYY-MM-DD or ISO timestamp)')
+	.action(async (options: { dir?: string; since?: string }) => {
+		try {
+			const since = options.since ? parseDateOption(options.since) : undefined;
+			const dirs = options.dir ? [options.dir] : await getTranscriptDirs();
+			if (dirs.length === 0) {
+				console.log(chalk.yellow('No Claude Code transcripts found (looked in ~/.config/claude and ~/.claude)'));
+				return;
+			}
+
+			const scan = await scanTranscripts(dirs, since);
+
+			await wrapper.initialize();
+			const result = await wrapper.backfillMessages(scan.messages);
+
+			console.log(
+				chalk.green(`✅ Read ${scan.messages.length} message(s) from ${scan.files} transcript file(s)`)
+			);
+			console.log(`   ${result.sessionsCreated} session window(s) created`);
+			console.log(`   ${result.messagesAdded} message(s) recorded, ${result.tokensAdded.toLocaleString()} tokens added`);
+			if (result.messagesAlreadyTracked > 0) {
+				console.log(
+					chalk.gray(`   ${result.messagesAlreadyTracked} of them fell in windows already tracked live (not re-counted)`)
+				);
+			}
+			console.log(`   ${result.messagesSkipped} skipped (already backfilled)`);
+		} catch (error) {
+			logger.error('Backfill failed', error);
+			process.exit(1);
+		} finally {
+			await wrapper.close();
+			process.exit(0);
+		}
+	});
+
 // Add log-stats command
 program
 	.command('log-stats')
@@ -1,10 +1,49 @@
 import { homedir } from 'os';
 import path from 'path';
 import fs from 'fs/promises';
+import { ConfigError } from './errors.js';
+import { DEFAULT_PRICING, resolvePricing, type ModelPricing, type PricingTable } from './pricing.js';
+import {
+	DEFAULT_WINDOW_ALIGNMENT,
+	parseWindowAlignment,
+	type WindowAlignment,
+	type WindowAlignmentStrategy,
+} from './session-window.js';
+import { parseWeeklyLimits, type WeeklyCap, type WeeklyLimits } from './weekly-limits.js';
+import { parseBudgets, type Budget, type BudgetsConfig } from './budgets.js';
+import { parseHooks, type Hooks, type HooksConfig } from './hooks.js';
+import { parseWebhooks, type Webhook, type WebhookConfig } from './webhooks.js';
+import {
+	DEFAULT_IDLE_PROMPT_FORMAT,
+	DEFAULT_IDLE_STATUS_FORMAT,
+	DEFAULT_PROMPT_FORMAT,
+	DEFAULT_STATUS_FORMAT,
+	parseStatusFormat,
+} from './status.js';
 
 interface SantaClaudeConfig {
 	sessionLengthHours: number;
 	subscriptionRenewalDay?: number; // Day of month (1-31) when subscription renews
+	pricing?: Record<string, Partial<ModelPricing>>; // USD per million tokens, keyed by model ID or family
+	windowAlignment?: WindowAlignmentStrategy; // How a new window's start is rounded (default exact-start)
+	windowAlignmentMinutes?: number; // Step for floor-to-minutes
+	weeklyLimits?: {
+		resetDay?: string | number; // Weekday name or 0-6 (Sunday first)
+		resetTime?: string; // Local HH:mm
+		caps?: Record<string, WeeklyCap>; // Keyed by model family or "all"
+	};
+	budgets?: BudgetsConfig; // Soft limits with warning thresholds in percent
+	windowTokenLimit?: number; // Tokens a window allows before Claude cuts you off, if known
+	statusline?: {
+		format?: string; // Shown while a window is active, with {placeholders}
+		idleFormat?: string; // Shown when no window is active
+	};
+	prompt?: {
+		format?: string; // Shell prompt segment while a window is active
+		idleFormat?: string; // Segment when no window is active (default empty)
+	};
+	hooks?: HooksConfig; // Shell commands keyed by event, plus remainingMinutes thresholds
+	webhooks?: WebhookConfig[]; // URLs sent the same events as signed JSON POSTs
 }
 
 const DEFAULT_CONFIG: SantaClaudeConfig = {
@@ -17,6 +56,8 @@ const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 export class ConfigManager {
 	private static instance: ConfigManager;
 	private config: SantaClaudeConfig | null = null;
+	// Modification time and size of the file `config` was read from; it is only parsed again when they change
+	private configVersion?: string;
 
 	private constructor() {}
 
@@ -35,16 +76,33 @@ export class ConfigManager {
 		}
 	}
 
+	/**
+	 * Called every few hundred milliseconds while Claude runs, so the file is only re-read when it changed,
+	 * and is never overwritten unless it is missing: a file caught mid-save must not lose the user's settings.
+	 */
 	async loadConfig(): Promise<SantaClaudeConfig> {
+		let version: string;
 		try {
-			await this.ensureConfigDir();
-			const configData = await fs.readFile(CONFIG_FILE, 'utf-8');
-			const parsedConfig = JSON.parse(configData);
-			this.config = { ...DEFAULT_CONFIG, ...parsedConfig };
+			const stats = await fs.stat(CONFIG_FILE);
+			version = `${stats.mtimeMs}:${stats.size}`;
 		} catch (_error) {
-			// Config file doesn't exist or is invalid, use defaults
+			// Config file doesn't exist yet, start it with the defaults
 			this.config = { ...DEFAULT_CONFIG };
+			this.configVersion = undefined;
 			await this.saveConfig();
+			return this.config;
+		}
+
+		if (this.config && version === this.configVersion) {
+			return this.config;
+		}
+		try {
+			const parsedConfig = JSON.parse(await fs.readFile(CONFIG_FILE, 'utf-8'));
+			this.config = { ...DEFAULT_CONFIG, ...parsedConfig };
+			this.configVersion = version;
+		} catch (_error) {
+			// Invalid or half-written: keep the last good config (or defaults) and read the file again next time
+			this.config = this.config ?? { ...DEFAULT_CONFIG };
 		}
 
 		return this.config!;
@@ -105,6 +163,141 @@ export class ConfigManager {
 		await this.saveConfig();
 	}
 
+	async getWindowAlignment(): Promise<WindowAlignment> {
+		const config = await this.loadConfig();
+		if (!config.windowAlignment) {
+			return DEFAULT_WINDOW_ALIGNMENT;
+		}
+
+		try {
+			return parseWindowAlignment(config.windowAlignment, config.windowAlignmentMinutes);
+		} catch (error) {
+			throw new ConfigError(`Invalid windowAlignment in config.json: ${(error as Error).message}`);
+		}
+	}
+
+	async setWindowAlignment(alignment: WindowAlignment): Promise<void> {
+		const config = await this.loadConfig();
+		config.windowAlignment = alignment.strategy;
+		config.windowAlignmentMinutes = alignment.minutes;
+		this.config = config;
+		await this.saveConfig();
+	}
+
+	/**
+	 * Weekly usage caps, or null when none are configured
+	 */
+	async getWeeklyLimits(): Promise<WeeklyLimits | null> {
+		const config = await this.loadConfig();
+		if (!config.weeklyLimits) {
+			return null;
+		}
+
+		try {
+			const limits = parseWeeklyLimits(config.weeklyLimits);
+			return Object.keys(limits.caps).length > 0 ? limits : null;
+		} catch (error) {
+			throw new ConfigError(`Invalid weeklyLimits in config.json: ${(error as Error).message}`);
+		}
+	}
+
+	async getBudgets(): Promise<Budget[]> {
+		const config = await this.loadConfig();
+		if (!config.budgets) {
+			return [];
+		}
+
+		try {
+			return parseBudgets(config.budgets);
+		} catch (error) {
+			throw new ConfigError(`Invalid budgets in config.json: ${(error as Error).message}`);
+		}
+	}
+
+	async getHooks(): Promise<Hooks | null> {
+		const config = await this.loadConfig();
+		if (!config.hooks) {
+			return null;
+		}
+
+		try {
+			return parseHooks(config.hooks);
+		} catch (error) {
+			throw new ConfigError(`Invalid hooks in config.json: ${(error as Error).message}`);
+		}
+	}
+
+	async getWebhooks(): Promise<Webhook[]> {
+		const config = await this.loadConfig();
+		if (!config.webhooks) {
+			return [];
+		}
+
+		try {
+			return parseWebhooks(config.webhooks);
+		} catch (error) {
+			throw new ConfigError(`Invalid webhooks in config.json: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Token allowance of one window, or undefined to learn it from past windows
+	 */
+	async getWindowTokenLimit(): Promise<number | undefined> {
+		const config = await this.loadConfig();
+		const limit = config.windowTokenLimit;
+		if (limit !== undefined && (typeof limit !== 'number' || !(limit > 0) || !Number.isFinite(limit))) {
+			throw new ConfigError('Invalid windowTokenLimit in config.json: must be a positive number');
+		}
+		return limit;
+	}
+
+	async getStatuslineFormats(): Promise<{ format: string; idleFormat: string }> {
+		const config = await this.loadConfig();
+		try {
+			return {
+				format: parseStatusFormat(config.statusline?.format ?? DEFAULT_STATUS_FORMAT),
+				idleFormat: parseStatusFormat(config.statusline?.idleFormat ?? DEFAULT_IDLE_STATUS_FORMAT),
+			};
+		} catch (error) {
+			throw new ConfigError(`Invalid statusline in config.json: ${(error as Error).message}`);
+		}
+	}
+
+	async getPromptFormats(): Promise<{ format: string; idleFormat: string }> {
+		const config = await this.loadConfig();
+		try {
+			return {
+				format: parseStatusFormat(config.prompt?.format ?? DEFAULT_PROMPT_FORMAT),
+				idleFormat: parseStatusFormat(config.prompt?.idleFormat ?? DEFAULT_IDLE_PROMPT_FORMAT),
+			};
+		} catch (error) {
+			throw new ConfigError(`Invalid prompt in config.json: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Built-in API prices with any overrides from config.json applied
+	 */
+	async getPricing(): Promise<PricingTable> {
+		const config = await this.loadConfig();
+		const pricing: PricingTable = { ...DEFAULT_PRICING };
+
+		for (const [model, overrides] of Object.entries(config.pricing ?? {})) {
+			for (const [field, value] of Object.entries(overrides ?? {})) {
+				if (typeof value !== 'number' || value < 0 || !Number.isFinite(value)) {
+					throw new ConfigError(`Invalid price for ${model}.${field} in config.json: must be a non-negative number`);
+				}
+			}
+			const key = model.trim().toLowerCase();
+			// Partial overrides inherit the remaining rates from the built-in entry (or its family's)
+			const base = pricing[key] ?? resolvePricing(key, DEFAULT_PRICING);
+			pricing[key] = { ...base, ...overrides };
+		}
+
+		return pricing;
+	}
+
 	// For testing - clear cached config
 	clearCache(): void {
 		this.config = null;
@@ -0,0 +1,281 @@
+import { watch, type FSWatcher } from 'fs';
+import path from 'path';
+import { homedir } from 'os';
+import chalk from 'chalk';
+import { format } from 'date-fns';
+import type { InstanceData, SessionTracker, SessionWithStats } from './session-tracker.js';
+import configManager from './config.js';
+import { statsCache } from './cache.js';
+import { formatBurnRate, formatProjection, type BurnProjection } from './burn-rate.js';
+import { formatCapUsage, formatWeeklyReset, type WeeklyUsage } from './weekly-limits.js';
+import { formatCost, formatDate, formatTokenSplit, isProcessAlive } from './utils.js';
+
+// Database writes come in bursts while Claude streams, so wait for a lull before re-querying
+const REFRESH_DEBOUNCE_MS = 300;
+// Re-query anyway now and then: instances can die and burn rates go stale without a write
+const REFRESH_INTERVAL_MS = 30000;
+const RECENT_SESSIONS = 5;
+const PROGRESS_BAR_WIDTH = 30;
+
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const EXIT_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CLEAR_SCREEN = '\x1b[H\x1b[2J';
+
+interface DashboardSnapshot {
+	active: SessionWithStats | null;
+	projection: BurnProjection | null;
+	instances: InstanceData[];
+	cycleSessions: number;
+	cycleLabel: string;
+	weeklySessions: number;
+	weeklyUsage: WeeklyUsage | null;
+	recent: SessionWithStats[];
+	updatedAt: Date;
+}
+
+function formatCountdown(ms: number): string {
+	const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function shortenHome(dir: string): string {
+	const home = homedir();
+	return dir.startsWith(home) ? `~${dir.slice(home.length)}` : dir;
+}
+
+/**
+ * Full-screen view of the active window, running instances and recent sessions.
+ * Re-queries when sessions.db changes and ticks the countdown every second.
+ */
+export class Dashboard {
+	private tracker: SessionTracker;
+	private snapshot?: DashboardSnapshot;
+	private watcher?: FSWatcher;
+	private tickTimer?: NodeJS.Timeout;
+	private refreshTimer?: NodeJS.Timeout;
+	private debounceTimer?: NodeJS.Timeout;
+	private refreshing: boolean = false;
+	private refreshQueued: boolean = false;
+	private lastError?: string;
+
+	constructor(tracker: SessionTracker) {
+		this.tracker = tracker;
+	}
+
+	/**
+	 * Draw until the user quits. Without a terminal, print one snapshot and return.
+	 */
+	async run(): Promise<void> {
+		if (!process.stdout.isTTY) {
+			await this.refresh();
+			process.stdout.write(this.render().join('\n') + '\n');
+			return;
+		}
+
+		process.stdout.write(ENTER_SCREEN);
+		await this.refresh();
+
+		return new Promise<void>((resolve) => {
+			const stop = () => {
+				this.stop();
+				process.stdout.write(EXIT_SCREEN);
+				resolve();
+			};
+
+			const dbPath = this.tracker.getDatabasePath();
+			const dbFile = path.basename(dbPath);
+			// Watch the directory: sqlite also touches its journal file next to the database
+			this.watcher = watch(path.dirname(dbPath), (_event, filename) => {
+				if (filename?.startsWith(dbFile)) {
+					this.scheduleRefresh();
+				}
+			});
+
+			this.tickTimer = setInterval(() => this.draw(), 1000);
+			this.refreshTimer = setInterval(() => this.scheduleRefresh(), REFRESH_INTERVAL_MS);
+			process.stdout.on('resize', this.onResize);
+
+			if (process.stdin.isTTY) {
+				process.stdin.setRawMode(true);
+				process.stdin.resume();
+				process.stdin.on('data', (key: Buffer) => {
+					const char = key.toString();
+					// q, Q, Ctrl-C or Esc
+					if (char === 'q' || char === 'Q' || char === '\u0003' || char === '\u001b') {
+						stop();
+					}
+				});
+			}
+			process.once('SIGINT', stop);
+			process.once('SIGTERM', stop);
+		});
+	}
+
+	private onResize = () => this.draw();
+
+	private stop(): void {
+		this.watcher?.close();
+		for (const timer of [this.tickTimer, this.refreshTimer, this.debounceTimer]) {
+			if (timer) clearInterval(timer);
+		}
+		process.stdout.off('resize', this.onResize);
+		if (process.stdin.isTTY) {
+			process.stdin.setRawMode(false);
+			process.stdin.removeAllListeners('data');
+			process.stdin.pause();
+		}
+	}
+
+	private scheduleRefresh(): void {
+		if (this.debounceTimer) clearTimeout(this.debounceTimer);
+		this.debounceTimer = setTimeout(() => {
+			this.debounceTimer = undefined;
+			this.refresh().catch(() => {
+				// refresh records its own errors
+			});
+		}, REFRESH_DEBOUNCE_MS);
+	}
+
+	private async refresh(): Promise<void> {
+		if (this.refreshing) {
+			// Pick up the change once the current query finishes
+			this.refreshQueued = true;
+			return;
+		}
+
+		this.refreshing = true;
+		try {
+			// The tracker caches its hot queries; the database just told us they're out of date
+			statsCache.clear();
+			this.snapshot = await this.collect();
+			this.lastError = undefined;
+		} catch (error) {
+			// Keep showing the last good snapshot
+			this.lastError = (error as Error).message;
+		} finally {
+			this.refreshing = false;
+		}
+
+		this.draw();
+		if (this.refreshQueued) {
+			this.refreshQueued = false;
+			await this.refresh();
+		}
+	}
+
+	private async collect(): Promise<DashboardSnapshot> {
+		const session = await this.tracker.getActiveSession();
+		const active = session ? await this.tracker.getSession(session.id) : null;
+
+		const renewalDay = await configManager.getSubscriptionRenewalDay();
+		const weeklyLimits = await configManager.getWeeklyLimits();
+
+		return {
+			active,
+			projection: await this.tracker.getBurnProjection(),
+			instances: (await this.tracker.getOpenInstances()).filter((instance) => isProcessAlive(instance.pid)),
+			cycleSessions: renewalDay
+				? await this.tracker.getBillingCycleSessionCount(renewalDay)
+				: await this.tracker.getMonthlySessionCount(),
+			cycleLabel: renewalDay ? 'this billing cycle' : 'this month',
+			weeklySessions: await this.tracker.getWeeklySessionCount(),
+			weeklyUsage: weeklyLimits ? await this.tracker.getWeeklyUsage(weeklyLimits) : null,
+			recent: await this.tracker.getSessionsWithStats(RECENT_SESSIONS),
+			updatedAt: new Date(),
+		};
+	}
+
+	private draw(): void {
+		if (!process.stdout.isTTY) return;
+		process.stdout.write(CLEAR_SCREEN + this.render().join('\n'));
+	}
+
+	private render(): string[] {
+		const lines: string[] = [];
+		const now = Date.now();
+		lines.push(`${chalk.cyan.bold('🎅 Santa Claude')}  ${chalk.gray(format(now, 'h:mm:ssaaa'))}`);
+		lines.push('');
+
+		const snapshot = this.snapshot;
+		if (!snapshot) {
+			lines.push(this.lastError ? chalk.red(`Unable to read sessions: ${this.lastError}`) : 'Loading…');
+			return lines;
+		}
+
+		lines.push(chalk.yellow('⏱️  Active window'));
+		if (snapshot.active && snapshot.active.endTime.getTime() > now) {
+			const { active } = snapshot;
+			const start = active.startTime.getTime();
+			const end = active.endTime.getTime();
+			const elapsed = Math.min(1, Math.max(0, (now - start) / (end - start)));
+			const filled = Math.round(elapsed * PROGRESS_BAR_WIDTH);
+
+			lines.push(
+				`   ${chalk.bold(formatCountdown(end - now))} left, resets ${format(end, 'h:mmaaa')}  ` +
+					`${chalk.green('█'.repeat(filled))}${chalk.gray('░'.repeat(PROGRESS_BAR_WIDTH - filled))}`
+			);
+			lines.push(
+				`   Tokens: ${active.totalTokens.toLocaleString()}  ${chalk.gray(formatTokenSplit(active.tokens))}  ~${formatCost(
+					active.cost
+				)} API`
+			);
+			if (snapshot.projection) {
+				lines.push(`   Burn rate: ${formatBurnRate(snapshot.projection)}`);
+				const outlook = formatProjection(snapshot.projection);
+				if (outlook) {
+					lines.push(`   ${snapshot.projection.limitBeforeReset ? chalk.yellow(outlook) : outlook}`);
+				}
+			}
+		} else {
+			lines.push('   No active session');
+		}
+
+		lines.push('');
+		lines.push(chalk.yellow(`🖥️  Running instances (${snapshot.instances.length})`));
+		for (const instance of snapshot.instances) {
+			const where = shortenHome(instance.project ?? instance.cwd ?? 'unknown');
+			lines.push(
+				`   ${chalk.gray(instance.id.slice(0, 8))}  pid ${instance.pid}  ${where}  ${instance.model}  since ${format(
+					instance.startTime,
+					'h:mmaaa'
+				)}  ${instance.totalTokens.toLocaleString()} tokens`
+			);
+		}
+
+		lines.push('');
+		lines.push(
+			chalk.yellow('📅 Sessions: ') +
+				`${snapshot.cycleSessions} ${snapshot.cycleLabel} · ${snapshot.weeklySessions} this calendar week`
+		);
+		if (snapshot.weeklyUsage) {
+			lines.push(chalk.magenta(`🗓️  Weekly limits (reset ${formatWeeklyReset(snapshot.weeklyUsage.resetsAt)})`));
+			for (const usage of snapshot.weeklyUsage.caps) {
+				const line = `   ${formatCapUsage(usage)}`;
+				lines.push(usage.fractionUsed >= 1 ? chalk.red(line) : usage.fractionUsed >= 0.8 ? chalk.yellow(line) : line);
+			}
+		}
+
+		lines.push('');
+		lines.push(chalk.yellow('📋 Recent sessions'));
+		if (snapshot.recent.length === 0) {
+			lines.push('   No sessions yet');
+		}
+		for (const session of snapshot.recent) {
+			lines.push(
+				`   ${chalk.gray(session.id.slice(0, 8))}  ${formatDate(session.startTime)} - ${formatDate(
+					session.endTime
+				)}  ${session.totalTokens.toLocaleString()} tokens  ${formatCost(session.cost)}`
+			);
+		}
+
+		lines.push('');
+		const status = this.lastError
+			? chalk.red(`Refresh failed: ${this.lastError}`)
+			: `updated ${format(snapshot.updatedAt, 'h:mm:ssaaa')}`;
+		lines.push(chalk.gray(`q to quit · redraws when sessions.db changes · ${status}`));
+		return lines;
+	}
+}
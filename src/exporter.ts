@@ -0,0 +1,207 @@
+import type { SessionDetail, InstanceData, SessionModelUsage, ImportedUsage } from './session-tracker.js';
+import type { TokenUsage } from './token-usage.js';
+import { ValidationError } from './errors.js';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+// Bump when the shape of ExportedSession changes incompatibly
+export const EXPORT_VERSION = 1;
+
+export interface ExportedInstance {
+	id: string;
+	pid: number | null;
+	cwd: string | null;
+	project: string | null;
+	model: string;
+	args: string[];
+	startTime: string;
+	endTime: string | null;
+	exitCode: number | null;
+	totalTokens: number;
+	tokens: TokenUsage;
+}
+
+export interface ExportedModelUsage {
+	model: string;
+	instanceId: string | null;
+	totalTokens: number;
+	tokens: TokenUsage;
+	firstSeen: string;
+	lastSeen: string;
+}
+
+export interface ExportedImportedUsage {
+	sourceId: string;
+	totalTokens: number;
+	tokens: TokenUsage;
+}
+
+export interface ExportedSession {
+	id: string;
+	startTime: string;
+	endTime: string;
+	totalTokens: number;
+	tokens: TokenUsage;
+	costUsd: number;
+	instances: ExportedInstance[];
+	modelUsage: ExportedModelUsage[];
+	// Usage merged in from other machines, included in the totals (missing in older exports)
+	imported?: ExportedImportedUsage[];
+}
+
+export interface ExportDocument {
+	format: 'santa-claude-export';
+	version: number;
+	exportedAt: string;
+	sessions: ExportedSession[];
+}
+
+export interface ExportOptions {
+	// CSV only: one row per instance instead of one row per session
+	instances?: boolean;
+}
+
+export function parseExportFormat(value: string): ExportFormat {
+	const format = value.trim().toLowerCase() as ExportFormat;
+	if (!EXPORT_FORMATS.includes(format)) {
+		throw new ValidationError(`Unknown export format "${value}" (expected ${EXPORT_FORMATS.join(', ')})`);
+	}
+	return format;
+}
+
+export function toExportedSession(session: SessionDetail): ExportedSession {
+	return {
+		id: session.id,
+		startTime: session.startTime.toISOString(),
+		endTime: session.endTime.toISOString(),
+		totalTokens: session.totalTokens,
+		tokens: session.tokens,
+		costUsd: roundCost(session.cost),
+		instances: session.instances.map(toExportedInstance),
+		modelUsage: session.modelUsage.map(toExportedModelUsage),
+		imported: session.imported.map(toExportedImportedUsage),
+	};
+}
+
+function toExportedInstance(instance: InstanceData): ExportedInstance {
+	return {
+		id: instance.id,
+		pid: instance.pid,
+		cwd: instance.cwd,
+		project: instance.project,
+		model: instance.model,
+		args: instance.args,
+		startTime: instance.startTime.toISOString(),
+		endTime: instance.endTime?.toISOString() ?? null,
+		exitCode: instance.exitCode,
+		totalTokens: instance.totalTokens,
+		tokens: instance.tokens,
+	};
+}
+
+function toExportedModelUsage(usage: SessionModelUsage): ExportedModelUsage {
+	return {
+		model: usage.model,
+		instanceId: usage.instanceId,
+		totalTokens: usage.totalTokens,
+		tokens: usage.tokens,
+		firstSeen: usage.firstSeen.toISOString(),
+		lastSeen: usage.lastSeen.toISOString(),
+	};
+}
+
+function toExportedImportedUsage(usage: ImportedUsage): ExportedImportedUsage {
+	return { sourceId: usage.sourceId, totalTokens: usage.totalTokens, tokens: usage.tokens };
+}
+
+/**
+ * Serialize sessions in the requested format. JSON and NDJSON keep the full nested detail;
+ * CSV flattens to one row per session (or per instance).
+ */
+export function formatExport(sessions: SessionDetail[], format: ExportFormat, options: ExportOptions = {}): string {
+	const exported = sessions.map(toExportedSession);
+
+	switch (format) {
+		case 'json': {
+			const document: ExportDocument = {
+				format: 'santa-claude-export',
+				version: EXPORT_VERSION,
+				exportedAt: new Date().toISOString(),
+				sessions: exported,
+			};
+			return JSON.stringify(document, null, 2) + '\n';
+		}
+		case 'ndjson':
+			return exported.map((session) => JSON.stringify(session) + '\n').join('');
+		case 'csv':
+			return options.instances ? formatInstancesCsv(exported) : formatSessionsCsv(exported);
+	}
+}
+
+const TOKEN_HEADERS = ['total_tokens', 'input_tokens', 'output_tokens', 'cache_creation_tokens', 'cache_read_tokens'];
+
+function tokenCells(totalTokens: number, tokens: TokenUsage): number[] {
+	return [totalTokens, tokens.input, tokens.output, tokens.cacheCreation, tokens.cacheRead];
+}
+
+function formatSessionsCsv(sessions: ExportedSession[]): string {
+	const header = ['session_id', 'start_time', 'end_time', ...TOKEN_HEADERS, 'cost_usd', 'instance_count', 'models'];
+	const rows = sessions.map((session) => [
+		session.id,
+		session.startTime,
+		session.endTime,
+		...tokenCells(session.totalTokens, session.tokens),
+		session.costUsd,
+		session.instances.length,
+		Array.from(new Set(session.modelUsage.map((usage) => usage.model))).join(';'),
+	]);
+	return toCsv([header, ...rows]);
+}
+
+function formatInstancesCsv(sessions: ExportedSession[]): string {
+	const header = [
+		'instance_id',
+		'session_id',
+		'start_time',
+		'end_time',
+		'pid',
+		'cwd',
+		'project',
+		'model',
+		'args',
+		'exit_code',
+		...TOKEN_HEADERS,
+	];
+	const rows = sessions.flatMap((session) =>
+		session.instances.map((instance) => [
+			instance.id,
+			session.id,
+			instance.startTime,
+			instance.endTime,
+			instance.pid,
+			instance.cwd,
+			instance.project,
+			instance.model,
+			instance.args.join(' '),
+			instance.exitCode,
+			...tokenCells(instance.totalTokens, instance.tokens),
+		])
+	);
+	return toCsv([header, ...rows]);
+}
+
+function toCsv(rows: Array<Array<string | number | null>>): string {
+	return rows.map((row) => row.map(escapeCsvCell).join(',') + '\n').join('');
+}
+
+function escapeCsvCell(value: string | number | null): string {
+	if (value === null) return '';
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function roundCost(usd: number): number {
+	return Math.round(usd * 10000) / 10000;
+}
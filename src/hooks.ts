@@ -0,0 +1,392 @@
+import { spawn } from 'child_process';
+import { hostname } from 'os';
+import type { InstanceData, SessionTracker } from './session-tracker.js';
+import configManager from './config.js';
+import { ValidationError } from './errors.js';
+import logger from './logger.js';
+import type { BudgetAlert } from './budgets.js';
+import { flushWebhooks, type Webhook } from './webhooks.js';
+
+export type HookEvent =
+	| 'windowStart'
+	| 'windowEnd'
+	| 'instanceLaunch'
+	| 'instanceExit'
+	| 'budgetThreshold'
+	| 'minutesRemaining';
+
+export const HOOK_EVENTS: HookEvent[] = [
+	'windowStart',
+	'windowEnd',
+	'instanceLaunch',
+	'instanceExit',
+	'budgetThreshold',
+	'minutesRemaining',
+];
+
+// Minutes before a window resets at which minutesRemaining fires, unless configured
+export const DEFAULT_REMAINING_MINUTES = [15];
+
+// Hooks run alongside Claude; one that hangs is stopped rather than holding up the wrapper's exit
+const HOOK_TIMEOUT_MS = 10000;
+// How long a timed-out hook gets to exit after SIGTERM before it is killed outright
+const HOOK_KILL_GRACE_MS = 2000;
+const WINDOW_CHECK_INTERVAL_MS = 15000;
+// A window that ended while nothing was running still gets its windowEnd hook if it ended this recently
+const MISSED_WINDOW_END_MS = 24 * 60 * 60 * 1000;
+const MAX_STDERR_LENGTH = 2000;
+
+export type HooksConfig = { remainingMinutes?: number[] } & Partial<Record<HookEvent, string | string[]>>;
+
+export interface Hooks {
+	commands: Record<HookEvent, string[]>;
+	// Ascending
+	remainingMinutes: number[];
+}
+
+/**
+ * Validate the `hooks` block from config.json. Each event takes a shell command or a list of them.
+ */
+export function parseHooks(value: HooksConfig): Hooks {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		throw new ValidationError('hooks must be an object of event names to commands');
+	}
+
+	for (const key of Object.keys(value)) {
+		if (key !== 'remainingMinutes' && !HOOK_EVENTS.includes(key as HookEvent)) {
+			throw new ValidationError(`Unknown hook event "${key}" (expected ${HOOK_EVENTS.join(', ')})`);
+		}
+	}
+
+	const commands = {} as Record<HookEvent, string[]>;
+	for (const event of HOOK_EVENTS) {
+		const setting = value[event] ?? [];
+		const list = typeof setting === 'string' ? [setting] : setting;
+		if (!Array.isArray(list) || list.some((command) => typeof command !== 'string' || !command.trim())) {
+			throw new ValidationError(`Hook ${event} must be a command or a list of commands`);
+		}
+		commands[event] = list;
+	}
+
+	const remainingMinutes = value.remainingMinutes ?? DEFAULT_REMAINING_MINUTES;
+	if (!Array.isArray(remainingMinutes) || remainingMinutes.some((m) => typeof m !== 'number' || !(m > 0))) {
+		throw new ValidationError('Hook remainingMinutes must be a list of positive numbers of minutes');
+	}
+
+	return { commands, remainingMinutes: [...new Set(remainingMinutes)].sort((a, b) => a - b) };
+}
+
+/**
+ * What a hook receives as JSON on stdin. Times are ISO strings.
+ */
+export interface HookPayload {
+	event: HookEvent;
+	firedAt: string;
+	session?: {
+		id: string;
+		startTime: string;
+		endTime: string;
+		totalTokens: number;
+		remainingMinutes: number;
+	};
+	instance?: {
+		id: string;
+		pid: number | null;
+		cwd: string | null;
+		project: string | null;
+		model: string;
+		startTime: string;
+		endTime: string | null;
+		exitCode: number | null;
+		totalTokens: number;
+	};
+	budget?: {
+		kind: string;
+		threshold: number;
+		used: number;
+		limit: number;
+	};
+	// The threshold reached, for minutesRemaining
+	minutes?: number;
+}
+
+/**
+ * The most useful payload fields as environment variables, for one-line commands
+ */
+export function getHookEnv(payload: HookPayload): Record<string, string> {
+	const env: Record<string, string> = { SANTA_CLAUDE_EVENT: payload.event };
+	if (payload.session) {
+		env.SANTA_CLAUDE_SESSION_ID = payload.session.id;
+		env.SANTA_CLAUDE_WINDOW_END = payload.session.endTime;
+		env.SANTA_CLAUDE_TOKENS = payload.session.totalTokens.toString();
+		env.SANTA_CLAUDE_REMAINING_MINUTES = payload.session.remainingMinutes.toString();
+	}
+	if (payload.instance) {
+		env.SANTA_CLAUDE_INSTANCE_ID = payload.instance.id;
+		env.SANTA_CLAUDE_PROJECT = payload.instance.project ?? payload.instance.cwd ?? '';
+		if (payload.instance.exitCode !== null) {
+			env.SANTA_CLAUDE_EXIT_CODE = payload.instance.exitCode.toString();
+		}
+	}
+	if (payload.budget) {
+		env.SANTA_CLAUDE_BUDGET = payload.budget.kind;
+		env.SANTA_CLAUDE_BUDGET_THRESHOLD = payload.budget.threshold.toString();
+	}
+	if (payload.minutes !== undefined) {
+		env.SANTA_CLAUDE_MINUTES = payload.minutes.toString();
+	}
+	return env;
+}
+
+/**
+ * Run one hook through the shell with the payload on stdin. Never rejects: failures are logged.
+ */
+export function runHookCommand(command: string, payload: HookPayload): Promise<void> {
+	return new Promise((resolve) => {
+		// Output is dropped: anything written to the terminal would land in the middle of Claude's screen.
+		// The hook gets its own process group so a timeout stops everything the shell started, not just the shell.
+		const child = spawn(command, {
+			shell: true,
+			detached: true,
+			stdio: ['pipe', 'ignore', 'pipe'],
+			env: { ...process.env, ...getHookEnv(payload) },
+		});
+
+		let stderr = '';
+		let killTimer: NodeJS.Timeout | undefined;
+		const finish = () => {
+			clearTimeout(timer);
+			clearTimeout(killTimer);
+			resolve();
+		};
+		const killGroup = (signal: NodeJS.Signals) => {
+			try {
+				if (child.pid) process.kill(-child.pid, signal);
+			} catch (_error) {
+				// The group is already gone
+			}
+		};
+
+		const timer = setTimeout(() => {
+			logger.debug(`Hook ${payload.event} timed out after ${HOOK_TIMEOUT_MS / 1000}s: ${command}`);
+			killGroup('SIGTERM');
+			killTimer = setTimeout(() => {
+				killGroup('SIGKILL');
+				// Something outside the group may still hold stderr open; stop waiting for it
+				child.stderr?.destroy();
+				finish();
+			}, HOOK_KILL_GRACE_MS);
+		}, HOOK_TIMEOUT_MS);
+
+		child.stderr?.on('data', (chunk: Buffer) => {
+			stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+		});
+		child.on('error', (error) => {
+			logger.debug(`Hook ${payload.event} failed to start: ${command}`, error);
+			finish();
+		});
+		child.on('close', (code) => {
+			if (code !== 0) {
+				logger.debug(`Hook ${payload.event} exited with ${code}: ${command}`, stderr.trim());
+			}
+			finish();
+		});
+
+		// The hook may exit without reading its input
+		child.stdin?.on('error', () => {});
+		child.stdin?.end(JSON.stringify(payload) + '\n');
+	});
+}
+
+/**
+ * Runs the hooks and webhooks configured in config.json for one wrapper process. Window events are claimed
+ * through SessionTracker so each fires once per window, however many instances share it.
+ */
+export class HookRunner {
+	private tracker: SessionTracker;
+	private timer?: NodeJS.Timeout;
+	private checking: boolean = false;
+	private running = new Set<Promise<void>>();
+
+	constructor(tracker: SessionTracker) {
+		this.tracker = tracker;
+	}
+
+	/**
+	 * Watch the active window for minutesRemaining and windowEnd, including a window that ended before we
+	 * started, and retry webhook deliveries left over from earlier runs
+	 */
+	start(): void {
+		this.checkWindow();
+		this.timer = setInterval(() => this.checkWindow(), WINDOW_CHECK_INTERVAL_MS);
+		this.timer.unref();
+	}
+
+	/**
+	 * Stop watching and wait for hooks still running, so they aren't cut off when the process exits
+	 */
+	async stop(): Promise<void> {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+		await Promise.all(this.running);
+	}
+
+	windowStarted(sessionId: string): void {
+		this.track(async (targets) => {
+			if (!listensTo(targets, 'windowStart')) return;
+			if (!(await this.tracker.claimHook('windowStart', sessionId))) return;
+			await this.run(targets, 'windowStart', { session: await this.getSessionInfo(sessionId) });
+		});
+	}
+
+	instanceLaunched(instance: InstanceData): void {
+		this.track((targets) => this.run(targets, 'instanceLaunch', { instance: toInstanceInfo(instance) }));
+	}
+
+	instanceExited(instanceId: string): void {
+		this.track(async (targets) => {
+			if (!listensTo(targets, 'instanceExit')) return;
+			const instance = await this.tracker.getInstance(instanceId);
+			if (!instance) return;
+			await this.run(targets, 'instanceExit', {
+				instance: toInstanceInfo(instance),
+				session: instance.sessionId ? await this.getSessionInfo(instance.sessionId) : undefined,
+			});
+		});
+	}
+
+	/**
+	 * Alerts arrive already claimed (see SessionTracker.claimBudgetAlerts)
+	 */
+	budgetCrossed(alert: BudgetAlert): void {
+		this.track(async (targets) => {
+			if (!listensTo(targets, 'budgetThreshold')) return;
+			const active = await this.tracker.getActiveSession();
+			await this.run(targets, 'budgetThreshold', {
+				session: active ? await this.getSessionInfo(active.id) : undefined,
+				budget: {
+					kind: alert.status.kind,
+					threshold: alert.threshold,
+					used: alert.status.used,
+					limit: alert.status.limit,
+				},
+			});
+		});
+	}
+
+	private checkWindow(): void {
+		if (this.checking) return;
+		this.checking = true;
+
+		this.track(async (targets) => {
+			const now = Date.now();
+			const active = listensTo(targets, 'minutesRemaining') ? await this.tracker.getActiveSession() : null;
+			if (active) {
+				const remainingMs = active.endTime.getTime() - now;
+				// Joining late fires only the closest threshold; the ones already passed are claimed unfired
+				const crossed = targets.hooks.remainingMinutes.filter((minutes) => remainingMs <= minutes * 60000);
+				for (const [index, minutes] of crossed.entries()) {
+					const claimed = await this.tracker.claimHook('minutesRemaining', active.id, minutes);
+					if (claimed && index === 0) {
+						const session = await this.getSessionInfo(active.id);
+						await this.run(targets, 'minutesRemaining', { session, minutes });
+					}
+				}
+			}
+
+			if (listensTo(targets, 'windowEnd')) {
+				const ended = await this.tracker.getLastEndedSession();
+				if (
+					ended &&
+					now - ended.endTime.getTime() <= MISSED_WINDOW_END_MS &&
+					(await this.tracker.claimHook('windowEnd', ended.id))
+				) {
+					await this.run(targets, 'windowEnd', { session: await this.getSessionInfo(ended.id) });
+				}
+			}
+
+			if (targets.webhooks.length > 0) {
+				await flushWebhooks(this.tracker, targets.webhooks);
+			}
+		}).finally(() => {
+			this.checking = false;
+		});
+	}
+
+	/**
+	 * Load the hooks and webhooks and run a step in the background, keeping hold of it for stop()
+	 */
+	private track(step: (targets: HookTargets) => Promise<void>): Promise<void> {
+		const task = Promise.all([configManager.getHooks(), configManager.getWebhooks()])
+			.then(([hooks, webhooks]) =>
+				hooks || webhooks.length > 0 ? step({ hooks: hooks ?? parseHooks({}), webhooks }) : undefined
+			)
+			.catch((error) => logger.debug('Failed to run hooks:', error))
+			.finally(() => this.running.delete(task));
+		this.running.add(task);
+		return task;
+	}
+
+	private async run(
+		targets: HookTargets,
+		event: HookEvent,
+		details: Omit<HookPayload, 'event' | 'firedAt'>
+	): Promise<void> {
+		if (!listensTo(targets, event)) return;
+		const payload: HookPayload = { event, firedAt: new Date().toISOString(), ...details };
+
+		const webhooks = targets.webhooks.filter((webhook) => webhook.events.includes(event));
+		if (webhooks.length > 0) {
+			// Queued first so a delivery that fails now (or is cut off by exit) is retried on a later run
+			const body = JSON.stringify({ ...payload, host: hostname() });
+			await this.tracker.enqueueWebhookDeliveries(webhooks.map((webhook) => ({ url: webhook.url, event, body })));
+		}
+
+		const commands = targets.hooks.commands[event];
+		logger.debug(`Running ${commands.length} ${event} hook(s) and ${webhooks.length} webhook(s)`);
+		await Promise.all([
+			...commands.map((command) => runHookCommand(command, payload)),
+			webhooks.length > 0 ? flushWebhooks(this.tracker, targets.webhooks) : undefined,
+		]);
+	}
+
+	private async getSessionInfo(sessionId: string): Promise<HookPayload['session']> {
+		const session = await this.tracker.getSession(sessionId);
+		if (!session) return undefined;
+
+		return {
+			id: session.id,
+			startTime: session.startTime.toISOString(),
+			endTime: session.endTime.toISOString(),
+			totalTokens: session.totalTokens,
+			remainingMinutes: Math.max(0, Math.floor((session.endTime.getTime() - Date.now()) / 60000)),
+		};
+	}
+}
+
+interface HookTargets {
+	hooks: Hooks;
+	webhooks: Webhook[];
+}
+
+function listensTo(targets: HookTargets, event: HookEvent): boolean {
+	return (
+		targets.hooks.commands[event].length > 0 || targets.webhooks.some((webhook) => webhook.events.includes(event))
+	);
+}
+
+function toInstanceInfo(instance: InstanceData): HookPayload['instance'] {
+	return {
+		id: instance.id,
+		pid: instance.pid,
+		cwd: instance.cwd,
+		project: instance.project,
+		model: instance.model,
+		startTime: instance.startTime.toISOString(),
+		endTime: instance.endTime?.toISOString() ?? null,
+		exitCode: instance.exitCode,
+		totalTokens: instance.totalTokens,
+	};
+}
@@ -0,0 +1,159 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import { SessionTracker, type SessionDetail } from './session-tracker.js';
+import type { ExportDocument, ExportedSession } from './exporter.js';
+import { EXPORT_VERSION } from './exporter.js';
+import { ValidationError } from './errors.js';
+import { emptyUsage, type TokenUsage } from './token-usage.js';
+
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+/**
+ * Read sessions from another machine's sessions.db or from a JSON/NDJSON export
+ */
+export async function readImportFile(filePath: string): Promise<SessionDetail[]> {
+	const handle = await fs.open(filePath, 'r');
+	let header: string;
+	try {
+		const buffer = Buffer.alloc(SQLITE_HEADER.length);
+		await handle.read(buffer, 0, buffer.length, 0);
+		header = buffer.toString('latin1');
+	} finally {
+		await handle.close();
+	}
+
+	if (header === SQLITE_HEADER) {
+		return readSessionsDatabase(filePath);
+	}
+
+	return parseExport(await fs.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Read a sessions.db through a temporary copy, so migrating it to the current schema never touches the original
+ */
+async function readSessionsDatabase(filePath: string): Promise<SessionDetail[]> {
+	const tempDir = await fs.mkdtemp(path.join(tmpdir(), 'santa-claude-import-'));
+	const tempPath = path.join(tempDir, 'sessions.db');
+	try {
+		await fs.copyFile(filePath, tempPath);
+		const source = new SessionTracker(tempPath);
+		await source.initialize();
+		try {
+			return await source.getSessionDetails();
+		} finally {
+			await source.close();
+		}
+	} finally {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	}
+}
+
+export function parseExport(content: string): SessionDetail[] {
+	const trimmed = content.trim();
+	if (!trimmed) {
+		return [];
+	}
+
+	let sessions: ExportedSession[];
+	if (trimmed.startsWith('{') && trimmed.includes('"santa-claude-export"')) {
+		const document = parseJson<ExportDocument>(trimmed, 'export file');
+		if (document.format !== 'santa-claude-export' || !Array.isArray(document.sessions)) {
+			throw new ValidationError('Not a santa-claude export file');
+		}
+		if (document.version > EXPORT_VERSION) {
+			throw new ValidationError(
+				`Export version ${document.version} is newer than this version of santa-claude supports (${EXPORT_VERSION})`
+			);
+		}
+		sessions = document.sessions;
+	} else if (trimmed.startsWith('{')) {
+		sessions = trimmed
+			.split(/\r?\n/)
+			.filter((line) => line.trim())
+			.map((line, index) => parseJson<ExportedSession>(line, `NDJSON line ${index + 1}`));
+	} else {
+		throw new ValidationError(
+			'Unsupported import file: expected a sessions.db or a JSON/NDJSON export (CSV cannot be imported)'
+		);
+	}
+
+	return sessions.map(fromExportedSession);
+}
+
+function parseJson<T>(text: string, label: string): T {
+	try {
+		return JSON.parse(text) as T;
+	} catch (_error) {
+		throw new ValidationError(`Invalid JSON in ${label}`);
+	}
+}
+
+function fromExportedSession(session: ExportedSession): SessionDetail {
+	if (!session || typeof session.id !== 'string') {
+		throw new ValidationError('Export contains a session without an id');
+	}
+
+	const instances = (session.instances ?? []).map((instance) => ({
+		id: instance.id,
+		sessionId: session.id,
+		pid: instance.pid ?? null,
+		cwd: instance.cwd ?? null,
+		project: instance.project ?? instance.cwd ?? null,
+		model: instance.model ?? 'unknown',
+		args: Array.isArray(instance.args) ? instance.args : [],
+		startTime: parseDate(instance.startTime, `instance ${instance.id}`),
+		endTime: instance.endTime ? parseDate(instance.endTime, `instance ${instance.id}`) : null,
+		exitCode: instance.exitCode ?? null,
+		totalTokens: toCount(instance.totalTokens),
+		tokens: toUsage(instance.tokens),
+	}));
+
+	return {
+		id: session.id,
+		startTime: parseDate(session.startTime, `session ${session.id}`),
+		endTime: parseDate(session.endTime, `session ${session.id}`),
+		totalTokens: toCount(session.totalTokens),
+		tokens: toUsage(session.tokens),
+		cost: 0,
+		instanceCount: instances.length,
+		instances,
+		modelUsage: (session.modelUsage ?? []).map((usage) => ({
+			model: usage.model,
+			instanceId: usage.instanceId ?? null,
+			totalTokens: toCount(usage.totalTokens),
+			tokens: toUsage(usage.tokens),
+			firstSeen: parseDate(usage.firstSeen, `session ${session.id} model usage`),
+			lastSeen: parseDate(usage.lastSeen, `session ${session.id} model usage`),
+		})),
+		imported: (session.imported ?? []).map((usage) => {
+			if (!usage || typeof usage.sourceId !== 'string') {
+				throw new ValidationError(`Session ${session.id} lists imported usage without a source id`);
+			}
+			return { sourceId: usage.sourceId, totalTokens: toCount(usage.totalTokens), tokens: toUsage(usage.tokens) };
+		}),
+	};
+}
+
+function parseDate(value: string, label: string): Date {
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new ValidationError(`Invalid date "${value}" in ${label}`);
+	}
+	return date;
+}
+
+function toCount(value: unknown): number {
+	return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+function toUsage(usage: Partial<TokenUsage> | undefined): TokenUsage {
+	if (!usage) return emptyUsage();
+	return {
+		input: toCount(usage.input),
+		output: toCount(usage.output),
+		cacheCreation: toCount(usage.cacheCreation),
+		cacheRead: toCount(usage.cacheRead),
+	};
+}
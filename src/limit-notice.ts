@@ -0,0 +1,145 @@
+// 'window' is the rolling usage limit (5 hours by default); 'weekly' covers the weekly caps
+export type LimitKind = 'window' | 'weekly';
+
+export interface LimitNotice {
+	kind: LimitKind;
+	// The notice as Claude printed it, without styling
+	message: string;
+	// When Claude says the limit resets, if the notice names a time we can place
+	resetsAt: Date | null;
+}
+
+// Stored notices are cut to this length; the reset time comes right after the headline
+const MAX_NOTICE_LENGTH = 200;
+
+// The wording has changed across Claude versions:
+//   "Claude AI usage limit reached|1760900400" (print mode)
+//   "Claude usage limit reached. Your limit will reset at 3pm (Europe/London)."
+//   "5-hour limit reached ∙ resets 3pm", "Opus weekly limit reached ∙ resets Oct 20, 1pm"
+//   "You've hit your session limit · resets 3pm (America/New_York)"
+// The notice must start its line (after indentation or box drawing) and name its reset, so prose that
+// mentions a limit being reached doesn't match. "Approaching usage limit" warnings don't either: nothing
+// has been refused yet.
+const LIMIT_NOTICE_PATTERN =
+	/^[ \t─-╿⎿]*((?:Claude(?: AI)? usage limit reached(?:\|\d{10,13}\b|\.[ \t]*Your limit will reset at\b)|(?:(?:5-hour|session|(?:opus |sonnet )?weekly) limit reached|You['’]ve hit your (?:\w+ )?limit)[ \t]*[∙·•|][ \t]*resets?\b)[^\r\n]*)/im;
+// Box drawing closing the notice's line
+const NOTICE_LINE_END_PATTERN = /[\s─-╿]+$/;
+
+// Print mode gives the reset as epoch seconds after a pipe
+const EPOCH_RESET_PATTERN = /usage limit reached\|(\d{10,13})\b/i;
+// "resets 3pm", "reset at 3:30 PM (Europe/London)", "resets Oct 20, 1pm": an optional date, a 12- or 24-hour
+// time and an optional IANA timezone (the local one when missing)
+const RESET_TIME_PATTERN =
+	/\bresets?(?:\s+at)?\s+(?:([a-z]{3,9})\.?\s+(\d{1,2}),?\s+(?:at\s+)?)?(\d{1,2})(?::(\d{2}))?\s*(?:([ap])\.?m\b\.?)?(?:\s*\(([^)]+)\))?/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Detect the notice Claude prints when a request is refused because a usage limit was reached
+ */
+export function detectLimitNotice(data: string, now: Date = new Date()): LimitNotice | null {
+	// Strip ANSI codes so styling inside the notice doesn't break matching
+	const plain = data.replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, '');
+	const match = plain.match(LIMIT_NOTICE_PATTERN);
+	if (!match) return null;
+
+	const message = match[1].replace(NOTICE_LINE_END_PATTERN, '').replace(/\s+/g, ' ').slice(0, MAX_NOTICE_LENGTH);
+	return { kind: /weekly/i.test(message) ? 'weekly' : 'window', message, resetsAt: parseLimitReset(message, now) };
+}
+
+/**
+ * The reset time named in a limit notice: the next time it occurs after `now` in the notice's timezone.
+ * Null when there is none or it can't be read (e.g. an unknown timezone).
+ */
+export function parseLimitReset(message: string, now: Date = new Date()): Date | null {
+	const epoch = message.match(EPOCH_RESET_PATTERN);
+	if (epoch) {
+		const value = Number(epoch[1]);
+		return new Date(epoch[1].length > 10 ? value : value * 1000);
+	}
+
+	const match = message.match(RESET_TIME_PATTERN);
+	if (!match) return null;
+
+	const [, monthName, dayOfMonth, hourText, minuteText, meridiem, zoneText] = match;
+	const timeZone = zoneText?.trim();
+	let hour = Number(hourText);
+	const minute = minuteText ? Number(minuteText) : 0;
+	if (minute > 59) return null;
+	if (meridiem) {
+		if (hour < 1 || hour > 12) return null;
+		// 12am is midnight and 12pm is noon
+		hour = (hour % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+	} else if (!minuteText || hour > 23) {
+		// A bare number isn't a time
+		return null;
+	}
+
+	try {
+		const today = getZoneParts(now.getTime(), timeZone);
+		const at = (year: number, month: number, day: number) => getZonedTime(year, month, day, hour, minute, timeZone);
+		if (monthName) {
+			const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase());
+			const day = Number(dayOfMonth);
+			if (month === -1 || day < 1 || day > 31) return null;
+
+			const thisYear = at(today.year, month, day);
+			return new Date(thisYear > now.getTime() ? thisYear : at(today.year + 1, month, day));
+		}
+
+		const todayAt = at(today.year, today.month, today.day);
+		return new Date(todayAt > now.getTime() ? todayAt : at(today.year, today.month, today.day + 1));
+	} catch (_error) {
+		// Intl rejects timezones it doesn't know
+		return null;
+	}
+}
+
+interface ZoneParts {
+	year: number;
+	// 0-based, as for Date
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+}
+
+/**
+ * The wall-clock date and time at an instant in a timezone (the local one when not given)
+ */
+function getZoneParts(time: number, timeZone?: string): ZoneParts {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+		second: 'numeric',
+	}).formatToParts(time);
+	const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+	return {
+		year: get('year'),
+		month: get('month') - 1,
+		day: get('day'),
+		hour: get('hour'),
+		minute: get('minute'),
+		second: get('second'),
+	};
+}
+
+/**
+ * The instant a wall-clock time occurs in a timezone. Overflowing days roll into the next month.
+ */
+function getZonedTime(year: number, month: number, day: number, hour: number, minute: number, timeZone?: string) {
+	const wall = Date.UTC(year, month, day, hour, minute);
+	const offsetAt = (time: number) => {
+		const parts = getZoneParts(time, timeZone);
+		const zoned = Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second);
+		return zoned - Math.floor(time / 1000) * 1000;
+	};
+	// Take the offset again at the first guess, which can sit on the other side of a DST change
+	return wall - offsetAt(wall - offsetAt(wall));
+}
@@ -0,0 +1,344 @@
+import { SessionError } from './errors.js';
+import logger from './logger.js';
+import type { SessionDatabase, SchemaVersionRow } from './types.js';
+
+export interface Migration {
+	version: number;
+	description: string;
+	up(db: SessionDatabase): Promise<void>;
+}
+
+/**
+ * Ordered schema migrations for sessions.db.
+ * Never edit a migration that has shipped - append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		description: 'Create sessions table',
+		async up(db) {
+			// IF NOT EXISTS so databases created before versioning are adopted as-is
+			await db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          start_time INTEGER NOT NULL,
+          end_time INTEGER NOT NULL,
+          total_tokens INTEGER DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_start_time ON sessions(start_time);
+        CREATE INDEX IF NOT EXISTS idx_end_time ON sessions(end_time);
+        CREATE INDEX IF NOT EXISTS idx_total_tokens ON sessions(total_tokens);
+        CREATE INDEX IF NOT EXISTS idx_start_time_tokens ON sessions(start_time, total_tokens);
+      `);
+		},
+	},
+	{
+		version: 2,
+		description: 'Create instances table',
+		async up(db) {
+			// One row per wrapper launch; session_id stays NULL until the instance first uses tokens
+			await db.exec(`
+        CREATE TABLE instances (
+          id TEXT PRIMARY KEY,
+          session_id TEXT,
+          pid INTEGER,
+          cwd TEXT,
+          args TEXT NOT NULL DEFAULT '[]',
+          start_time INTEGER NOT NULL,
+          end_time INTEGER,
+          exit_code INTEGER,
+          total_tokens INTEGER DEFAULT 0
+        );
+
+        CREATE INDEX idx_instances_session_id ON instances(session_id);
+        CREATE INDEX idx_instances_start_time ON instances(start_time);
+      `);
+		},
+	},
+	{
+		version: 3,
+		description: 'Split token counts into input, output and cache columns',
+		async up(db) {
+			for (const table of ['sessions', 'instances']) {
+				await db.exec(`
+          ALTER TABLE ${table} ADD COLUMN input_tokens INTEGER DEFAULT 0;
+          ALTER TABLE ${table} ADD COLUMN output_tokens INTEGER DEFAULT 0;
+          ALTER TABLE ${table} ADD COLUMN cache_creation_tokens INTEGER DEFAULT 0;
+          ALTER TABLE ${table} ADD COLUMN cache_read_tokens INTEGER DEFAULT 0;
+        `);
+			}
+		},
+	},
+	{
+		version: 4,
+		description: 'Track model usage per session and instance',
+		async up(db) {
+			// instance_id is '' (not NULL) for usage without an instance so the primary key still dedupes
+			await db.exec(`
+        ALTER TABLE instances ADD COLUMN model TEXT;
+
+        CREATE TABLE model_usage (
+          session_id TEXT NOT NULL,
+          instance_id TEXT NOT NULL DEFAULT '',
+          model TEXT NOT NULL,
+          total_tokens INTEGER DEFAULT 0,
+          input_tokens INTEGER DEFAULT 0,
+          output_tokens INTEGER DEFAULT 0,
+          cache_creation_tokens INTEGER DEFAULT 0,
+          cache_read_tokens INTEGER DEFAULT 0,
+          first_seen INTEGER NOT NULL,
+          last_seen INTEGER NOT NULL,
+          PRIMARY KEY (session_id, instance_id, model)
+        );
+
+        CREATE INDEX idx_model_usage_model ON model_usage(model);
+      `);
+		},
+	},
+	{
+		version: 5,
+		description: 'Attribute instances to projects',
+		async up(db) {
+			// Existing instances only know their cwd, which is the best project guess available
+			await db.exec(`
+        ALTER TABLE instances ADD COLUMN project TEXT;
+        UPDATE instances SET project = cwd WHERE project IS NULL;
+        CREATE INDEX idx_instances_project ON instances(project);
+      `);
+		},
+	},
+	{
+		version: 6,
+		description: 'Track where sessions came from and which were imported',
+		async up(db) {
+			// imported_sessions remembers sessions merged into a local one so re-imports stay idempotent
+			await db.exec(`
+        ALTER TABLE sessions ADD COLUMN source TEXT NOT NULL DEFAULT 'wrapper';
+
+        CREATE TABLE imported_sessions (
+          source_id TEXT PRIMARY KEY,
+          target_id TEXT NOT NULL,
+          imported_at INTEGER NOT NULL
+        );
+      `);
+		},
+	},
+	{
+		version: 7,
+		description: 'Record per-message usage backfilled from Claude transcripts',
+		async up(db) {
+			// counted is 0 for messages that fell inside a window the wrapper already tracked live
+			await db.exec(`
+        CREATE TABLE message_usage (
+          message_id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          conversation_id TEXT,
+          timestamp INTEGER NOT NULL,
+          model TEXT NOT NULL,
+          cwd TEXT,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+          counted INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX idx_message_usage_session ON message_usage(session_id);
+        CREATE INDEX idx_message_usage_timestamp ON message_usage(timestamp);
+      `);
+		},
+	},
+	{
+		version: 8,
+		description: 'Remember budget thresholds already alerted',
+		async up(db) {
+			// One row per budget, period and threshold, so concurrent instances alert only once
+			await db.exec(`
+        CREATE TABLE budget_alerts (
+          budget TEXT NOT NULL,
+          period_start INTEGER NOT NULL,
+          threshold INTEGER NOT NULL,
+          used INTEGER NOT NULL,
+          budget_limit INTEGER NOT NULL,
+          crossed_at INTEGER NOT NULL,
+          PRIMARY KEY (budget, period_start, threshold)
+        );
+      `);
+		},
+	},
+	{
+		version: 9,
+		description: 'Record the live burn rate of each instance',
+		async up(db) {
+			// Rates are in tokens per minute; readers ignore ones that haven't been refreshed recently
+			await db.exec(`
+        ALTER TABLE instances ADD COLUMN burn_rate REAL;
+        ALTER TABLE instances ADD COLUMN burn_rate_updated_at INTEGER;
+      `);
+		},
+	},
+	{
+		version: 10,
+		description: 'Store token usage over time',
+		async up(db) {
+			// One row per instance, model and few-second bucket; tokens are what was used within the bucket
+			await db.exec(`
+        CREATE TABLE token_samples (
+          session_id TEXT NOT NULL,
+          instance_id TEXT NOT NULL DEFAULT '',
+          model TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          total_tokens INTEGER NOT NULL DEFAULT 0,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_read_tokens INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX idx_token_samples_session ON token_samples(session_id, timestamp);
+        CREATE INDEX idx_token_samples_timestamp ON token_samples(timestamp);
+      `);
+		},
+	},
+	{
+		version: 11,
+		description: 'Remember window hooks already fired',
+		async up(db) {
+			// Several instances can watch the same window; whoever inserts the row runs the hook
+			await db.exec(`
+        CREATE TABLE fired_hooks (
+          event TEXT NOT NULL,
+          session_id TEXT NOT NULL,
+          minutes INTEGER NOT NULL DEFAULT 0,
+          fired_at INTEGER NOT NULL,
+          PRIMARY KEY (event, session_id, minutes)
+        );
+      `);
+		},
+	},
+	{
+		version: 12,
+		description: 'Queue webhook deliveries for retry',
+		async up(db) {
+			// Rows are deleted once delivered; body is the exact JSON that gets signed and sent
+			await db.exec(`
+        CREATE TABLE webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          url TEXT NOT NULL,
+          event TEXT NOT NULL,
+          body TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL,
+          last_error TEXT,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at);
+      `);
+		},
+	},
+	{
+		version: 13,
+		description: 'Record usage limit hits',
+		async up(db) {
+			// One row per window and kind, whichever instance saw the notice first. session_id is NULL when
+			// santa-claude had no active window (the usage happened elsewhere), and NULLs never collide.
+			await db.exec(`
+        CREATE TABLE limit_hits (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT,
+          instance_id TEXT,
+          kind TEXT NOT NULL,
+          hit_at INTEGER NOT NULL,
+          window_tokens INTEGER NOT NULL DEFAULT 0,
+          message TEXT NOT NULL
+        );
+
+        CREATE UNIQUE INDEX idx_limit_hits_session ON limit_hits(session_id, kind);
+        CREATE INDEX idx_limit_hits_hit_at ON limit_hits(hit_at);
+      `);
+		},
+	},
+	{
+		version: 14,
+		description: 'Remember the tokens each imported session contributed',
+		async up(db) {
+			// Re-imports replace a source's contribution instead of adding it again. Rows imported before this
+			// are left NULL: what they added is unknown, so they are never refreshed.
+			await db.exec(`
+        ALTER TABLE imported_sessions ADD COLUMN total_tokens INTEGER;
+        ALTER TABLE imported_sessions ADD COLUMN input_tokens INTEGER;
+        ALTER TABLE imported_sessions ADD COLUMN output_tokens INTEGER;
+        ALTER TABLE imported_sessions ADD COLUMN cache_creation_tokens INTEGER;
+        ALTER TABLE imported_sessions ADD COLUMN cache_read_tokens INTEGER;
+
+        CREATE INDEX idx_imported_sessions_target ON imported_sessions(target_id);
+      `);
+		},
+	},
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+async function ensureSchemaVersionTable(db: SessionDatabase): Promise<void> {
+	await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+}
+
+export async function getSchemaVersion(db: SessionDatabase): Promise<number> {
+	const row = await db.get<SchemaVersionRow>(`SELECT MAX(version) as version FROM schema_version`);
+	return row?.version ?? 0;
+}
+
+/**
+ * Bring the database up to LATEST_SCHEMA_VERSION.
+ * Each step runs in its own transaction so a failure leaves the database at the last good version.
+ */
+export async function runMigrations(db: SessionDatabase): Promise<number> {
+	await ensureSchemaVersionTable(db);
+
+	const currentVersion = await getSchemaVersion(db);
+	if (currentVersion > LATEST_SCHEMA_VERSION) {
+		throw new SessionError(
+			`Database schema version ${currentVersion} is newer than this version of santa-claude supports (${LATEST_SCHEMA_VERSION}). Please upgrade santa-claude.`
+		);
+	}
+
+	for (const migration of MIGRATIONS) {
+		if (migration.version <= currentVersion) continue;
+
+		// IMMEDIATE takes the write lock up front so concurrent instances apply each step once
+		await db.exec('BEGIN IMMEDIATE');
+		try {
+			// Another process may have applied this step while we waited for the lock
+			if ((await getSchemaVersion(db)) >= migration.version) {
+				await db.exec('COMMIT');
+				continue;
+			}
+
+			await migration.up(db);
+			await db.run(
+				`INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)`,
+				migration.version,
+				migration.description,
+				Date.now()
+			);
+			await db.exec('COMMIT');
+			logger.debug(`Applied migration ${migration.version}: ${migration.description}`);
+		} catch (error) {
+			await db.exec('ROLLBACK').catch(() => {
+				// Transaction may already have been rolled back by sqlite
+			});
+			const message = error instanceof Error ? error.message : String(error);
+			throw new SessionError(`Migration ${migration.version} (${migration.description}) failed: ${message}`);
+		}
+	}
+
+	return getSchemaVersion(db);
+}
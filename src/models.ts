@@ -0,0 +1,55 @@
+export type ModelFamily = 'opus' | 'sonnet' | 'haiku';
+
+export const UNKNOWN_MODEL = 'unknown';
+
+const MODEL_FAMILIES: ModelFamily[] = ['opus', 'sonnet', 'haiku'];
+
+export function normalizeModel(model: string | undefined | null): string {
+	const normalized = (model ?? '').trim().toLowerCase();
+	return normalized || UNKNOWN_MODEL;
+}
+
+/**
+ * Map a model alias or full model ID ("opus", "claude-opus-4-1-20250805") to its family.
+ * Models outside the known families are returned unchanged.
+ */
+export function getModelFamily(model: string): string {
+	const normalized = normalizeModel(model);
+	return MODEL_FAMILIES.find(family => normalized.includes(family)) ?? normalized;
+}
+
+/**
+ * Read the model Claude was launched with from its arguments (`--model opus` or `--model=opus`)
+ */
+export function parseModelArg(args: string[]): string {
+	for (let i = 0; i < args.length; i++) {
+		if (args[i] === '--model' && i + 1 < args.length) {
+			return normalizeModel(args[i + 1]);
+		}
+		if (args[i].startsWith('--model=')) {
+			return normalizeModel(args[i].slice('--model='.length));
+		}
+	}
+	return UNKNOWN_MODEL;
+}
+
+/**
+ * Detect the confirmation Claude prints after an in-session `/model` switch,
+ * e.g. "Set model to opus (claude-opus-4-1-20250805)" or "Set model to Default (Sonnet 4)"
+ */
+export function detectModelSwitch(data: string): string | null {
+	// Strip ANSI codes so styling around the model name doesn't break matching
+	const plain = data.replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, '');
+	const match = plain.match(/Set model to\s+([^\s(\r\n]+)(?:\s*\(([^)\r\n]+)\))?/);
+	if (!match) return null;
+
+	// Prefer the full model ID or family mentioned in parentheses ("Default (Sonnet 4)")
+	const detail = match[2]?.trim().toLowerCase();
+	if (detail) {
+		if (detail.startsWith('claude-')) return detail.split(/\s+/)[0];
+		const family = MODEL_FAMILIES.find(f => detail.includes(f));
+		if (family) return family;
+	}
+
+	return normalizeModel(match[1]);
+}
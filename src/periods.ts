@@ -0,0 +1,90 @@
+import {
+	addDays,
+	addHours,
+	addMonths,
+	addWeeks,
+	format,
+	startOfDay,
+	startOfHour,
+	startOfMonth,
+	startOfWeek,
+} from 'date-fns';
+import { ValidationError } from './errors.js';
+import { getBillingCycleStart } from './utils.js';
+
+export type StatsGrouping = 'hour' | 'day' | 'week' | 'month' | 'billing-cycle';
+
+export const STATS_GROUPINGS: StatsGrouping[] = ['hour', 'day', 'week', 'month', 'billing-cycle'];
+
+export function parseStatsGrouping(value: string): StatsGrouping {
+	const grouping = value.trim().toLowerCase() as StatsGrouping;
+	if (!STATS_GROUPINGS.includes(grouping)) {
+		throw new ValidationError(`Unknown grouping "${value}" (expected ${STATS_GROUPINGS.join(', ')})`);
+	}
+	return grouping;
+}
+
+/**
+ * Start of the period containing `date`. Weeks start on Sunday; billing cycles fall back to
+ * calendar months when no renewal day is set.
+ */
+export function getPeriodStart(grouping: StatsGrouping, date: Date, renewalDay?: number): Date {
+	switch (grouping) {
+		case 'hour':
+			return startOfHour(date);
+		case 'day':
+			return startOfDay(date);
+		case 'week':
+			return startOfWeek(date, { weekStartsOn: 0 });
+		case 'month':
+			return startOfMonth(date);
+		case 'billing-cycle':
+			return renewalDay ? getBillingCycleStart(renewalDay, date) : startOfMonth(date);
+	}
+}
+
+/**
+ * Start of the period following the one that begins at `start`
+ */
+export function getNextPeriodStart(grouping: StatsGrouping, start: Date, renewalDay?: number): Date {
+	switch (grouping) {
+		case 'hour':
+			return addHours(start, 1);
+		case 'day':
+			return addDays(start, 1);
+		case 'week':
+			return addWeeks(start, 1);
+		case 'month':
+			return addMonths(start, 1);
+		case 'billing-cycle': {
+			if (!renewalDay) {
+				return addMonths(start, 1);
+			}
+			// Build candidates the same way getBillingCycleStart does, so short months roll over identically
+			for (let offset = 0; ; offset++) {
+				const candidate = new Date(start.getFullYear(), start.getMonth() + offset, renewalDay);
+				if (candidate > start) {
+					return candidate;
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Short label for the period starting at `start`, as shown in grouped stats
+ */
+export function formatPeriodLabel(grouping: StatsGrouping, start: Date): string {
+	switch (grouping) {
+		case 'hour':
+			return format(start, 'yyyy-MM-dd HH:mm');
+		case 'day':
+			return format(start, 'EEE yyyy-MM-dd');
+		case 'week':
+			return `Week of ${format(start, 'yyyy-MM-dd')}`;
+		case 'month':
+			return format(start, 'MMMM yyyy');
+		case 'billing-cycle':
+			return `Cycle ${format(start, 'yyyy-MM-dd')}`;
+	}
+}
@@ -0,0 +1,56 @@
+import { getModelFamily, normalizeModel } from './models.js';
+import type { TokenUsage } from './token-usage.js';
+
+/**
+ * API prices in USD per million tokens
+ */
+export interface ModelPricing {
+	input: number;
+	output: number;
+	cacheWrite: number;
+	cacheRead: number;
+}
+
+export type PricingTable = Record<string, ModelPricing>;
+
+// Anthropic API list prices; override per model or family with `pricing` in config.json
+export const DEFAULT_PRICING: PricingTable = {
+	opus: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+	sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+	haiku: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+// Claude Code's default model, used when the model wasn't recorded
+export const FALLBACK_PRICING_MODEL = 'sonnet';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Find rates for a model: an exact model ID entry wins over its family, then the fallback model
+ */
+export function resolvePricing(model: string, table: PricingTable): ModelPricing {
+	const normalized = normalizeModel(model);
+	return (
+		table[normalized] ??
+		table[getModelFamily(normalized)] ??
+		table[FALLBACK_PRICING_MODEL] ??
+		DEFAULT_PRICING[FALLBACK_PRICING_MODEL]
+	);
+}
+
+/**
+ * API-equivalent cost of the tokens a model used.
+ * Tokens counted in the running total but not broken down (Claude's counter without a split) are priced as input.
+ */
+export function estimateCost(model: string, totalTokens: number, usage: TokenUsage, table: PricingTable): number {
+	const rates = resolvePricing(model, table);
+	const unsplitTokens = Math.max(0, totalTokens - usage.input - usage.output);
+
+	const cost =
+		(usage.input + unsplitTokens) * rates.input +
+		usage.output * rates.output +
+		usage.cacheCreation * rates.cacheWrite +
+		usage.cacheRead * rates.cacheRead;
+
+	return cost / TOKENS_PER_PRICE_UNIT;
+}
@@ -0,0 +1,31 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import fs from 'fs/promises';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Normalize a working directory to the project it belongs to: the git repository root when
+ * there is one, otherwise the resolved directory itself
+ */
+export async function resolveProjectRoot(cwd: string): Promise<string> {
+	let dir = path.resolve(cwd);
+	try {
+		dir = await fs.realpath(dir);
+	} catch (_error) {
+		// Directory may no longer exist (e.g. filtering by an old project) - keep the resolved path
+	}
+
+	try {
+		const { stdout } = await execFileAsync('git', ['rev-parse', '--show-toplevel'], { cwd: dir, timeout: 2000 });
+		const root = stdout.trim();
+		if (root) {
+			return root;
+		}
+	} catch (_error) {
+		// Not a git repository, git isn't installed, or the directory is gone
+	}
+
+	return dir;
+}
@@ -0,0 +1,326 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { URL, URLSearchParams } from 'url';
+import { subDays } from 'date-fns';
+import type { SeriesResolution, SessionTracker } from './session-tracker.js';
+import configManager from './config.js';
+import { ValidationError } from './errors.js';
+import logger from './logger.js';
+import { parseStatsGrouping } from './periods.js';
+import { resolveProjectRoot } from './project.js';
+import { isProcessAlive, parseDateOption } from './utils.js';
+
+// Bound to loopback only: the data describes what you've been working on
+const SERVER_HOST = '127.0.0.1';
+export const DEFAULT_SERVER_PORT = 7337;
+
+// Host headers we answer to, so a web page can't reach the API through DNS rebinding
+const ALLOWED_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+
+interface Metric {
+	name: string;
+	help: string;
+	type: 'gauge';
+	samples: Array<{ labels?: Record<string, string>; value: number }>;
+}
+
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Prometheus text exposition format (version 0.0.4)
+ */
+export function formatMetrics(metrics: Metric[]): string {
+	const lines: string[] = [];
+	for (const metric of metrics) {
+		lines.push(`# HELP ${metric.name} ${metric.help}`);
+		lines.push(`# TYPE ${metric.name} ${metric.type}`);
+		for (const sample of metric.samples) {
+			const labels = Object.entries(sample.labels ?? {})
+				.map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+				.join(',');
+			lines.push(`${metric.name}${labels ? `{${labels}}` : ''} ${sample.value}`);
+		}
+	}
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * Localhost-only HTTP API: JSON endpoints over SessionTracker and a Prometheus /metrics endpoint
+ */
+export class ApiServer {
+	private tracker: SessionTracker;
+	private server: Server;
+
+	constructor(tracker: SessionTracker) {
+		this.tracker = tracker;
+		this.server = createServer((req, res) => {
+			this.handle(req, res).catch((error: Error) => {
+				logger.error(`Request ${req.url} failed`, error);
+				this.sendJson(res, 500, { error: 'Internal error' });
+			});
+		});
+	}
+
+	listen(port: number): Promise<string> {
+		return new Promise((resolve, reject) => {
+			this.server.once('error', reject);
+			this.server.listen(port, SERVER_HOST, () => {
+				this.server.off('error', reject);
+				resolve(`http://${SERVER_HOST}:${port}`);
+			});
+		});
+	}
+
+	close(): Promise<void> {
+		return new Promise((resolve) => {
+			this.server.close(() => resolve());
+			this.server.closeAllConnections();
+		});
+	}
+
+	private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+		const hostname = (req.headers.host ?? '').replace(/:\d+$/, '');
+		if (!ALLOWED_HOSTS.includes(hostname)) {
+			this.sendJson(res, 403, { error: 'Forbidden host' });
+			return;
+		}
+		if (req.method !== 'GET') {
+			res.setHeader('Allow', 'GET');
+			this.sendJson(res, 405, { error: 'Method not allowed' });
+			return;
+		}
+
+		const url = new URL(req.url ?? '/', `http://${SERVER_HOST}`);
+		const query = url.searchParams;
+
+		try {
+			switch (url.pathname) {
+				case '/api/active':
+					this.sendJson(res, 200, await this.getActive());
+					return;
+				case '/api/stats':
+					this.sendJson(res, 200, await this.getStats(query));
+					return;
+				case '/api/sessions':
+					this.sendJson(res, 200, await this.getSessions(query));
+					return;
+				case '/api/series':
+					this.sendJson(res, 200, await this.getSeries(query));
+					return;
+				case '/api/analytics':
+					this.sendJson(res, 200, await this.tracker.getDetailedAnalytics());
+					return;
+				case '/metrics':
+					res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+					res.end(formatMetrics(await this.collectMetrics()));
+					return;
+				default:
+					this.sendJson(res, 404, { error: `Unknown endpoint ${url.pathname}` });
+			}
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				this.sendJson(res, 400, { error: error.message });
+				return;
+			}
+			throw error;
+		}
+	}
+
+	private sendJson(res: ServerResponse, status: number, body: unknown): void {
+		if (res.headersSent) {
+			res.end();
+			return;
+		}
+		res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+		res.end(JSON.stringify(body, null, 2));
+	}
+
+	private async getActive() {
+		const active = await this.tracker.getActiveSession();
+		if (!active) {
+			return { active: false };
+		}
+
+		return {
+			active: true,
+			session: await this.tracker.getSession(active.id),
+			remainingSeconds: Math.max(0, Math.floor((active.endTime.getTime() - Date.now()) / 1000)),
+			burn: await this.tracker.getBurnProjection(),
+		};
+	}
+
+	/**
+	 * `from`/`to` as YYYY-MM-DD or ISO timestamps (default the last 30 days), `groupBy` optional
+	 */
+	private async getStats(query: URLSearchParams) {
+		const toParam = query.get('to');
+		const fromParam = query.get('from');
+		const groupBy = query.get('groupBy');
+
+		const to = toParam ? parseDateOption(toParam, { endOfDay: true }) : new Date();
+		return this.tracker.getUsageStats({
+			from: fromParam ? parseDateOption(fromParam) : subDays(to, 30),
+			to,
+			groupBy: groupBy ? parseStatsGrouping(groupBy) : undefined,
+		});
+	}
+
+	/**
+	 * `limit` (default 10, max 1000), `since`, `until` and `project`
+	 */
+	private async getSessions(query: URLSearchParams) {
+		const limit = query.has('limit') ? Number(query.get('limit')) : 10;
+		if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+			throw new ValidationError('limit must be a whole number between 1 and 1000');
+		}
+
+		const since = query.get('since');
+		const until = query.get('until');
+		const project = query.get('project');
+		return this.tracker.getSessionsWithStats(limit, {
+			since: since ? parseDateOption(since) : undefined,
+			until: until ? parseDateOption(until, { endOfDay: true }) : undefined,
+			project: project ? await resolveProjectRoot(project) : undefined,
+		});
+	}
+
+	/**
+	 * Tokens per minute (`resolution` 1, the default) or per 5 minutes, for a `session` (an ID or prefix;
+	 * its window, narrowed by `from`/`to`) or a `from`-`to` range
+	 */
+	private async getSeries(query: URLSearchParams) {
+		const resolution = query.has('resolution') ? Number(query.get('resolution')) : 1;
+		const sessionParam = query.get('session');
+		const session = sessionParam ? await this.tracker.getSession(sessionParam) : null;
+		if (sessionParam && !session) {
+			throw new ValidationError(`No session found matching "${sessionParam}"`);
+		}
+
+		const from = query.get('from');
+		const to = query.get('to');
+		return this.tracker.getTokenSeries(
+			{
+				sessionId: session?.id,
+				from: from ? parseDateOption(from) : undefined,
+				to: to ? parseDateOption(to, { endOfDay: true }) : undefined,
+			},
+			resolution as SeriesResolution
+		);
+	}
+
+	private async collectMetrics(): Promise<Metric[]> {
+		const now = Date.now();
+		const active = await this.tracker.getActiveSession();
+		const session = active ? await this.tracker.getSession(active.id) : null;
+		const burn = await this.tracker.getBurnProjection();
+
+		const cycleStart = await this.tracker.getCurrentPeriodStart();
+		const cycle = await this.tracker.getUsageStats({ from: new Date(cycleStart), to: new Date(now) });
+		const instances = (await this.tracker.getOpenInstances()).filter((instance) => isProcessAlive(instance.pid));
+
+		const metrics: Metric[] = [
+			{
+				name: 'santa_claude_window_active',
+				help: 'Whether a usage window is active (1) or not (0).',
+				type: 'gauge',
+				samples: [{ value: active ? 1 : 0 }],
+			},
+			{
+				name: 'santa_claude_window_remaining_seconds',
+				help: 'Seconds until the active window resets.',
+				type: 'gauge',
+				samples: [{ value: active ? Math.max(0, Math.floor((active.endTime.getTime() - now) / 1000)) : 0 }],
+			},
+			{
+				name: 'santa_claude_window_tokens',
+				help: 'Tokens used in the active window, by kind.',
+				type: 'gauge',
+				samples: [
+					{ labels: { kind: 'total' }, value: session?.totalTokens ?? 0 },
+					{ labels: { kind: 'input' }, value: session?.tokens.input ?? 0 },
+					{ labels: { kind: 'output' }, value: session?.tokens.output ?? 0 },
+					{ labels: { kind: 'cache_creation' }, value: session?.tokens.cacheCreation ?? 0 },
+					{ labels: { kind: 'cache_read' }, value: session?.tokens.cacheRead ?? 0 },
+				],
+			},
+			{
+				name: 'santa_claude_window_burn_rate_tokens_per_minute',
+				help: 'Combined recent tokens per minute of running instances.',
+				type: 'gauge',
+				samples: [{ value: burn?.tokensPerMinute ?? 0 }],
+			},
+			{
+				name: 'santa_claude_running_instances',
+				help: 'santa-claude instances currently running.',
+				type: 'gauge',
+				samples: [{ value: instances.length }],
+			},
+			{
+				name: 'santa_claude_cycle_sessions',
+				help: 'Sessions started in the current billing cycle (calendar month when no renewal day is set).',
+				type: 'gauge',
+				samples: [{ value: cycle.sessionCount }],
+			},
+			{
+				name: 'santa_claude_cycle_tokens',
+				help: 'Tokens used in the current billing cycle.',
+				type: 'gauge',
+				samples: [{ value: cycle.totalTokens.total }],
+			},
+			{
+				name: 'santa_claude_cycle_cost_usd',
+				help: 'Estimated API-equivalent cost of the current billing cycle.',
+				type: 'gauge',
+				samples: [{ value: Number(cycle.totalCost.toFixed(4)) }],
+			},
+			{
+				name: 'santa_claude_week_sessions',
+				help: 'Sessions started this calendar week.',
+				type: 'gauge',
+				samples: [{ value: await this.tracker.getWeeklySessionCount() }],
+			},
+		];
+
+		if (burn?.allowance) {
+			metrics.push({
+				name: 'santa_claude_window_allowance_tokens',
+				help: 'Token allowance of a window, configured or learned from past windows.',
+				type: 'gauge',
+				samples: [{ labels: { source: burn.allowanceSource ?? 'unknown' }, value: burn.allowance }],
+			});
+		}
+		if (burn && burn.minutesToLimit !== null) {
+			metrics.push({
+				name: 'santa_claude_window_seconds_to_limit',
+				help: 'Seconds until the allowance runs out at the current burn rate.',
+				type: 'gauge',
+				samples: [{ value: Math.round(burn.minutesToLimit * 60) }],
+			});
+		}
+
+		const weeklyLimits = await configManager.getWeeklyLimits();
+		if (weeklyLimits) {
+			const weekly = await this.tracker.getWeeklyUsage(weeklyLimits);
+			metrics.push({
+				name: 'santa_claude_weekly_cap_used_ratio',
+				help: 'Share of each weekly cap used (1 = cap reached).',
+				type: 'gauge',
+				samples: weekly.caps.map((usage) => ({ labels: { family: usage.family }, value: usage.fractionUsed })),
+			});
+		}
+
+		const budgets = await configManager.getBudgets();
+		if (budgets.length > 0) {
+			const statuses = await this.tracker.getBudgetStatuses(budgets);
+			metrics.push({
+				name: 'santa_claude_budget_used_ratio',
+				help: 'Share of each budget used (1 = budget reached).',
+				type: 'gauge',
+				samples: statuses.map((status) => ({ labels: { budget: status.kind }, value: status.fraction })),
+			});
+		}
+
+		return metrics;
+	}
+}
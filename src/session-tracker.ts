@@ -1,19 +1,43 @@
-import { open, Database } from 'sqlite';
+import { open } from 'sqlite';
 import sqlite3 from 'sqlite3';
-import { startOfMonth, startOfWeek } from 'date-fns';
+import { randomUUID } from 'crypto';
+import { addDays, format, startOfDay, startOfMonth, startOfWeek, subDays } from 'date-fns';
 import path from 'path';
 import { homedir } from 'os';
 import fs from 'fs/promises';
 import configManager from './config.js';
 import { ValidationError } from './errors.js';
 import logger from './logger.js';
-import type { SessionRow, DailyUsageRow, HourCountRow, DayOfWeekCountRow, CountRow, TokenStatsRow } from './types.js';
+import type { SessionDatabase, SessionRow, InstanceRow, SessionWithInstanceCountRow, HourDayCountRow, CountRow, TokenColumns, ModelUsageRow, WeeklyModelUsageRow, ImportedSessionRow, ProjectUsageRow, MessageIdRow, EndTimeRow, BurnRateRow, TokenSeriesRow, WebhookDeliveryRow, LimitHitRow, LimitHitStatsRow } from './types.js';
+import { addUsage, emptyUsage, type TokenUsage, type TokenTotals } from './token-usage.js';
+import { getModelFamily, normalizeModel, UNKNOWN_MODEL } from './models.js';
+import { estimateCost } from './pricing.js';
+import { formatDate, getBillingCycleStart } from './utils.js';
 import { statsCache } from './cache.js';
+import { runMigrations } from './migrations.js';
+import { getWindowBounds, type WindowAlignment } from './session-window.js';
+import { getNextPeriodStart, getPeriodStart, type StatsGrouping } from './periods.js';
+import { ALL_MODELS, getCapFraction, getWeekStart, type WeeklyLimits, type WeeklyUsage } from './weekly-limits.js';
+import {
+	getCrossedThresholds,
+	type Budget,
+	type BudgetAlert,
+	type BudgetKind,
+	type BudgetStatus,
+} from './budgets.js';
+import { projectExhaustion, type BurnProjection } from './burn-rate.js';
+import type { StatusSnapshot } from './status.js';
+import { STATE_FILE_NAME, writeStateFile } from './state-file.js';
+import type { HookEvent } from './hooks.js';
+import type { LimitKind, LimitNotice } from './limit-notice.js';
 
 export interface DetailedAnalytics {
 	mostActiveHour: number;
 	mostActiveDay?: string;
-	modelUsage: Array<{ model: string; count: number }>;
+	// Session starts over the last ACTIVITY_WEEKS weeks, indexed [weekday (Sunday first)][hour]
+	activityMatrix: number[][];
+	modelUsage: ModelUsageStats[];
+	// Every day of the last DAILY_USAGE_DAYS days, oldest first
 	dailyUsage: Array<{ date: string; sessions: number; totalTokens: number }>;
 }
 
@@ -23,18 +47,351 @@ export interface SessionData {
 	endTime: Date;
 }
 
-
 export interface SessionWithStats extends SessionData {
 	totalTokens: number;
+	tokens: TokenUsage;
+	cost: number;
+	instanceCount: number;
+}
+
+export interface PeriodStats {
+	sessionCount: number;
+	totalCost: number;
+	totalTokens: TokenTotals;
+}
+
+export interface StatsRange {
+	from: Date;
+	to: Date;
+	groupBy?: StatsGrouping;
+}
+
+export interface GroupedStats extends PeriodStats {
+	start: Date;
+	end: Date;
+}
+
+export interface RangeStats extends PeriodStats {
+	from: Date;
+	to: Date;
+	groupBy?: StatsGrouping;
+	// One entry per period in the range (including empty ones) when grouped
+	groups: GroupedStats[];
+}
+
+export interface TokenSample {
+	sessionId: string;
+	instanceId?: string;
+	model: string;
+	timestamp: number;
+	totalTokens: number;
+	tokens: TokenUsage;
+}
+
+export type SeriesResolution = 1 | 5;
+
+export const SERIES_RESOLUTIONS: SeriesResolution[] = [1, 5];
+
+export interface SeriesFilter {
+	sessionId?: string;
+	from?: Date;
+	to?: Date;
+}
+
+export interface TokenSeriesPoint {
+	start: Date;
+	totalTokens: TokenTotals;
+}
+
+export interface WebhookDelivery {
+	id: string;
+	url: string;
+	event: string;
+	body: string;
+	attempts: number;
+	nextAttemptAt: Date;
+	lastError: string | null;
+	createdAt: Date;
+}
+
+export interface LimitHit {
+	// Null when no window was being tracked at the time
+	sessionId: string | null;
+	instanceId: string | null;
+	kind: LimitKind;
+	hitAt: Date;
+	// Tokens the window had used when Claude refused the request
+	windowTokens: number;
+	message: string;
+}
+
+export interface LimitHitStats {
+	windowHits: number;
+	weeklyHits: number;
+	// Tokens into the window at the window limit hits we tracked a window for (null when there were none)
+	averageTokens: number | null;
+	minTokens: number | null;
+	maxTokens: number | null;
+}
+
+export interface InstanceData {
+	id: string;
+	sessionId: string | null;
+	pid: number | null;
+	cwd: string | null;
+	project: string | null;
+	args: string[];
+	startTime: Date;
+	endTime: Date | null;
+	exitCode: number | null;
+	totalTokens: number;
+	tokens: TokenUsage;
+	model: string;
+}
+
+export interface NewInstance {
+	id: string;
+	pid: number;
+	cwd: string;
+	args: string[];
+	model: string;
+	project: string;
+}
+
+export interface SessionFilter {
+	// Only sessions joined by an instance launched in this project (see resolveProjectRoot)
+	project?: string;
+	// Sessions that started at or after `since` and before `until`
+	since?: Date;
+	until?: Date;
+}
+
+export interface ImportResult {
+	added: number;
+	merged: number;
+	// Sessions imported before whose usage has changed since
+	updated: number;
+	skipped: number;
+	// Sessions left out because merging them would overlap several local windows
+	conflicting: number;
+	conflictingIds: string[];
+	instancesAdded: number;
+}
+
+export interface BackfillMessage {
+	// API message id - the same message can appear in several transcripts
+	messageId: string;
+	// Claude Code's own conversation id
+	conversationId: string | null;
+	timestamp: Date;
+	model: string;
+	cwd: string | null;
+	usage: TokenUsage;
+}
+
+export interface BackfillResult {
+	messagesAdded: number;
+	messagesSkipped: number;
+	// Messages inside windows the wrapper tracked live, recorded without re-counting their tokens
+	messagesAlreadyTracked: number;
+	sessionsCreated: number;
+	tokensAdded: number;
+}
+
+export interface SessionModelUsage {
+	model: string;
+	instanceId: string | null;
+	totalTokens: number;
+	tokens: TokenUsage;
+	firstSeen: Date;
+	lastSeen: Date;
+}
+
+export interface ImportedUsage {
+	// The session's ID on the machine it was recorded on
+	sourceId: string;
+	totalTokens: number;
+	tokens: TokenUsage;
+}
+
+export interface SessionDetail extends SessionWithStats {
+	instances: InstanceData[];
+	modelUsage: SessionModelUsage[];
+	// Usage merged in from other machines' sessions; it is part of the totals above
+	imported: ImportedUsage[];
+}
+
+export interface ProjectUsageStats {
+	project: string;
+	sessionCount: number;
+	instanceCount: number;
+	totalTokens: number;
+	tokens: TokenUsage;
+}
+
+export interface TokenAttribution {
+	instanceId?: string;
+	model?: string;
+}
+
+export interface ModelUsageStats {
+	model: string;
+	count: number;
+	totalTokens: number;
+	tokens: TokenUsage;
+	cost: number;
+}
+
+// Keeps an hourly grouping over a long range from building an enormous table
+const MAX_STATS_GROUPS = 2000;
+// Whole weeks, so every weekday in the activity matrix is sampled equally often
+const ACTIVITY_WEEKS = 4;
+const DAILY_USAGE_DAYS = 30;
+// Rows per INSERT, keeping well under sqlite's bound-parameter limit
+const SAMPLE_INSERT_CHUNK = 100;
+// IDs per `IN (...)` list, for the same reason (older sqlite builds allow 999 parameters)
+const ID_QUERY_CHUNK = 500;
+// A week at one-minute resolution
+const MAX_SERIES_POINTS = 7 * 24 * 60;
+// Instances refresh their burn rate every few seconds while running; older rates belong to a stalled process
+const BURN_RATE_STALE_MS = 60 * 1000;
+// Token updates arrive many times a second while Claude streams; the state file only needs the latest
+const STATE_WRITE_INTERVAL_MS = 1000;
+// Far longer than any real window, so a manual edit this long is almost certainly a typo
+const MAX_MANUAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+// model_usage.instance_id of usage imported without an instance, followed by the session it came from
+const IMPORTED_USAGE_PREFIX = 'import:';
+// Tables holding rows recorded against a session, removed with it by gc and `session delete`. This includes
+// message_usage, so `backfill` can recover a deleted session's messages instead of skipping them as seen.
+const SESSION_TABLES = ['instances', 'model_usage', 'token_samples', 'message_usage', 'fired_hooks', 'limit_hits'];
+// The input/output/cache breakdown kept next to total_tokens in sessions, instances, model_usage and token_samples
+const SPLIT_COLUMNS = ['input_tokens', 'output_tokens', 'cache_creation_tokens', 'cache_read_tokens'];
+// Reset times in limit notices are given to the minute, so smaller differences aren't worth a correction
+const MIN_RESET_CORRECTION_MS = 60 * 1000;
+
+function assertValidId(id: string, label: string): void {
+	if (!id || typeof id !== 'string' || id.length > 100) {
+		throw new ValidationError(`Invalid ${label}`);
+	}
+	// Allow only alphanumeric and dashes
+	if (!/^[a-zA-Z0-9-]+$/.test(id)) {
+		throw new ValidationError(`${label.charAt(0).toUpperCase() + label.slice(1)} contains invalid characters`);
+	}
+}
+
+/**
+ * Find the window containing `timestamp` in windows sorted by start time.
+ * `index` is where a window starting at `timestamp` would be inserted.
+ */
+function findWindowAt<T extends { start_time: number; end_time: number }>(
+	windows: T[],
+	timestamp: number
+): { index: number; window?: T } {
+	let low = 0;
+	let high = windows.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (windows[mid].start_time <= timestamp) {
+			low = mid + 1;
+		} else {
+			high = mid;
+		}
+	}
+
+	const previous = windows[low - 1];
+	return { index: low, window: previous && previous.end_time > timestamp ? previous : undefined };
+}
+
+function summarizeSessions(sessions: SessionRow[], costs: Map<string, number>): PeriodStats {
+	let total = 0;
+	let usage = emptyUsage();
+	let totalCost = 0;
+	for (const session of sessions) {
+		total += session.total_tokens || 0;
+		usage = addUsage(usage, rowToTokenUsage(session));
+		totalCost += costs.get(session.id) ?? 0;
+	}
+	return { sessionCount: sessions.length, totalCost, totalTokens: { total, ...usage } };
+}
+
+/**
+ * Total time covered by possibly overlapping [start, end] spans
+ */
+function mergedDurationMs(spans: Array<[number, number]>): number {
+	const sorted = [...spans].sort((a, b) => a[0] - b[0]);
+	if (sorted.length === 0) return 0;
+
+	let total = 0;
+	let [currentStart, currentEnd] = sorted[0];
+	for (const [start, end] of sorted.slice(1)) {
+		if (start > currentEnd) {
+			total += currentEnd - currentStart;
+			currentStart = start;
+			currentEnd = end;
+		} else {
+			currentEnd = Math.max(currentEnd, end);
+		}
+	}
+	return total + (currentEnd - currentStart);
+}
+
+/**
+ * The part of a model usage row's tokens used since `since`. A row that started earlier is split by its
+ * token samples, or by time when it has none (e.g. backfilled or imported usage).
+ */
+function getRowTokensSince(row: WeeklyModelUsageRow, since: number): number {
+	const total = row.total_tokens || 0;
+	if (row.first_seen >= since) return total;
+	if (row.sampled_tokens) {
+		return Math.round((total * (row.sampled_tokens_since || 0)) / row.sampled_tokens);
+	}
+	return Math.round((total * (row.last_seen - since)) / (row.last_seen - row.first_seen));
+}
+
+/**
+ * What a session used on its own machine: its totals less the usage merged in from other machines
+ */
+function subtractImported(session: SessionDetail): Pick<ImportedUsage, 'totalTokens' | 'tokens'> {
+	const own = { total: session.totalTokens, ...session.tokens };
+	for (const usage of session.imported) {
+		own.total -= usage.totalTokens;
+		own.input -= usage.tokens.input;
+		own.output -= usage.tokens.output;
+		own.cacheCreation -= usage.tokens.cacheCreation;
+		own.cacheRead -= usage.tokens.cacheRead;
+	}
+	return {
+		totalTokens: Math.max(0, own.total),
+		tokens: {
+			input: Math.max(0, own.input),
+			output: Math.max(0, own.output),
+			cacheCreation: Math.max(0, own.cacheCreation),
+			cacheRead: Math.max(0, own.cacheRead),
+		},
+	};
+}
+
+function rowToTokenUsage(row: TokenColumns | undefined): TokenUsage {
+	return {
+		input: row?.input_tokens || 0,
+		output: row?.output_tokens || 0,
+		cacheCreation: row?.cache_creation_tokens || 0,
+		cacheRead: row?.cache_read_tokens || 0,
+	};
 }
 
 export class SessionTracker {
 	private dbPath: string;
-	private db!: Database<sqlite3.Database, sqlite3.Statement>;
+	private db!: SessionDatabase;
+	private lastStateWrite: number = 0;
+	private stateTimer?: NodeJS.Timeout;
+	private stateWrite?: Promise<void>;
 
-	constructor() {
+	constructor(dbPath?: string) {
 		// Support in-memory database for tests
-		if (process.env.SANTA_CLAUDE_TEST_DB === ':memory:') {
+		if (dbPath) {
+			this.dbPath = dbPath;
+		} else if (process.env.SANTA_CLAUDE_TEST_DB === ':memory:') {
 			this.dbPath = ':memory:';
 		} else {
 			const configDir = path.join(homedir(), '.santa-claude');
@@ -42,6 +399,56 @@ export class SessionTracker {
 		}
 	}
 
+	getDatabasePath(): string {
+		return this.dbPath;
+	}
+
+	/**
+	 * state.json next to the database, or null for an in-memory database
+	 */
+	getStateFilePath(): string | null {
+		return this.dbPath === ':memory:' ? null : path.join(path.dirname(this.dbPath), STATE_FILE_NAME);
+	}
+
+	/**
+	 * Rewrite state.json now, from the database unless a fresh snapshot is given.
+	 * Failures are logged, never thrown: the file is only a cache.
+	 */
+	async writeStateFile(snapshot?: StatusSnapshot): Promise<void> {
+		const filePath = this.getStateFilePath();
+		if (!filePath) return;
+
+		if (this.stateTimer) {
+			clearTimeout(this.stateTimer);
+			this.stateTimer = undefined;
+		}
+		// Let an in-flight write land first so an older snapshot can't replace this one
+		await this.stateWrite;
+
+		this.lastStateWrite = Date.now();
+		this.stateWrite = (snapshot ? Promise.resolve(snapshot) : this.getStatusSnapshot())
+			.then((latest) => writeStateFile(filePath, latest))
+			.catch((error) => logger.debug('Failed to write state file:', error));
+		await this.stateWrite;
+	}
+
+	/**
+	 * Schedule a state.json rewrite after a change, at most once per STATE_WRITE_INTERVAL_MS
+	 */
+	private markStateChanged(): void {
+		if (!this.getStateFilePath() || this.stateTimer) return;
+
+		const delay = Math.max(0, this.lastStateWrite + STATE_WRITE_INTERVAL_MS - Date.now());
+		this.stateTimer = setTimeout(() => {
+			this.stateTimer = undefined;
+			this.writeStateFile().catch(() => {
+				// writeStateFile logs its own errors
+			});
+		}, delay);
+		// A pending write is flushed by close(), it shouldn't keep the process alive on its own
+		this.stateTimer.unref();
+	}
+
 	async initialize() {
 		// Ensure config directory exists (skip for in-memory db)
 		if (this.dbPath !== ':memory:') {
@@ -55,20 +462,11 @@ export class SessionTracker {
 			driver: sqlite3.Database,
 		});
 
-		// Create tables if they don't exist
-		await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS sessions (
-        id TEXT PRIMARY KEY,
-        start_time INTEGER NOT NULL,
-        end_time INTEGER NOT NULL,
-        total_tokens INTEGER DEFAULT 0
-      );
+		// Wait for other santa-claude instances holding the write lock instead of failing with SQLITE_BUSY
+		await this.db.exec('PRAGMA busy_timeout = 5000');
 
-      CREATE INDEX IF NOT EXISTS idx_start_time ON sessions(start_time);
-      CREATE INDEX IF NOT EXISTS idx_end_time ON sessions(end_time);
-      CREATE INDEX IF NOT EXISTS idx_total_tokens ON sessions(total_tokens);
-      CREATE INDEX IF NOT EXISTS idx_start_time_tokens ON sessions(start_time, total_tokens);
-    `);
+		// Create or upgrade tables to the current schema version
+		await runMigrations(this.db);
 	}
 
 	async createSession(sessionId: string): Promise<SessionData> {
@@ -83,8 +481,7 @@ export class SessionTracker {
 
 		const now = Date.now();
 		const sessionLengthMs = await configManager.getSessionLengthMs();
-		const adjustedSessionLengthMs = sessionLengthMs - 60000; // Subtract 1 minute for safety
-		const endTime = now + adjustedSessionLengthMs;
+		const alignment = await configManager.getWindowAlignment();
 
 		// Check if there's already an active session
 		const activeSession = await this.getActiveSession();
@@ -95,9 +492,26 @@ export class SessionTracker {
 			return activeSession;
 		}
 
+		// An aligned start must not reach back into the previous window
+		const previous = await this.db.get<EndTimeRow>(
+			`SELECT MAX(end_time) as end_time FROM sessions WHERE end_time <= ?`,
+			now
+		);
+		const { start: startTime, end: endTime } = getWindowBounds(
+			now,
+			sessionLengthMs,
+			alignment,
+			previous?.end_time ?? undefined
+		);
+
 		try {
 			// Create new session with calculated end time
-			await this.db.run(`INSERT INTO sessions (id, start_time, end_time) VALUES (?, ?, ?)`, sessionId, now, endTime);
+			await this.db.run(
+				`INSERT INTO sessions (id, start_time, end_time) VALUES (?, ?, ?)`,
+				sessionId,
+				startTime,
+				endTime
+			);
 		} catch (error) {
 			// Handle potential race condition where another process created a session
 			logger.debug('Session creation failed, checking for existing session:', error);
@@ -110,7 +524,7 @@ export class SessionTracker {
 
 		const newSession = {
 			id: sessionId,
-			startTime: new Date(now),
+			startTime: new Date(startTime),
 			endTime: new Date(endTime),
 		};
 
@@ -118,6 +532,7 @@ export class SessionTracker {
 		statsCache.delete('monthly_session_count');
 		statsCache.delete('weekly_session_count');
 		statsCache.set('active_session', newSession, 10000);
+		this.markStateChanged();
 
 		return newSession;
 	}
@@ -238,20 +653,7 @@ export class SessionTracker {
 			throw new ValidationError('Invalid renewal day');
 		}
 		
-		// Calculate the start of the current billing cycle
-		const now = new Date();
-		const currentDay = now.getDate();
-
-		let cycleStart: Date;
-		if (currentDay >= renewalDay) {
-			// We're past the renewal day this month
-			cycleStart = new Date(now.getFullYear(), now.getMonth(), renewalDay);
-		} else {
-			// We haven't reached the renewal day yet, so cycle started last month
-			cycleStart = new Date(now.getFullYear(), now.getMonth() - 1, renewalDay);
-		}
-
-		const cycleStartTimestamp = cycleStart.getTime();
+		const cycleStartTimestamp = getBillingCycleStart(renewalDay).getTime();
 
 		// Count sessions since cycle start
 		const result = await this.db.get<CountRow>(
@@ -264,161 +666,486 @@ export class SessionTracker {
 
 	//
 
-	async get30DayStats(): Promise<{
-		sessionCount: number;
-		totalCost: number;
-		totalTokens: { input: number; output: number };
-	}> {
-		const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
-
-		const sessionCount = await this.getSessionCountSince(thirtyDaysAgo);
+	/**
+	 * Sessions, tokens and cost for sessions started within [from, to), optionally broken down into periods
+	 */
+	async getUsageStats(range: StatsRange): Promise<RangeStats> {
+		const from = range.from.getTime();
+		const to = range.to.getTime();
+		if (Number.isNaN(from) || Number.isNaN(to) || from >= to) {
+			throw new ValidationError('Stats range must end after it starts');
+		}
 
-		// Get token stats from sessions
-		const tokenStats = await this.db.get<TokenStatsRow>(
-			`
-      SELECT 
-        COALESCE(SUM(total_tokens), 0) as total_tokens
-      FROM sessions
-      WHERE start_time >= ?
-    `,
-			thirtyDaysAgo
+		const sessions = await this.db.all<SessionRow[]>(
+			`SELECT * FROM sessions WHERE start_time >= ? AND start_time < ? ORDER BY start_time ASC`,
+			from,
+			to
 		);
+		const costs = await this.estimateSessionCosts(`start_time >= ? AND start_time < ?`, from, to);
+
+		const groups: GroupedStats[] = [];
+		if (range.groupBy) {
+			const groupBy = range.groupBy;
+			const renewalDay = groupBy === 'billing-cycle' ? await configManager.getSubscriptionRenewalDay() : undefined;
+
+			let index = 0;
+			let start = range.from;
+			while (start.getTime() < to) {
+				if (groups.length >= MAX_STATS_GROUPS) {
+					throw new ValidationError(`Too many ${groupBy} groups in this range; use a coarser grouping or a shorter range`);
+				}
+
+				const next = getNextPeriodStart(groupBy, getPeriodStart(groupBy, start, renewalDay), renewalDay);
+				const end = next.getTime() < to ? next : range.to;
+
+				// Sessions are sorted, so each group takes the next run of them
+				const groupSessions: SessionRow[] = [];
+				while (index < sessions.length && sessions[index].start_time < end.getTime()) {
+					groupSessions.push(sessions[index++]);
+				}
+
+				groups.push({ start, end, ...summarizeSessions(groupSessions, costs) });
+				start = end;
+			}
+		}
 
 		return {
-			sessionCount,
-			totalCost: 0,
-			totalTokens: {
-				input: tokenStats?.total_tokens || 0,
-				output: 0,
-			},
+			from: range.from,
+			to: range.to,
+			groupBy: range.groupBy,
+			...summarizeSessions(sessions, costs),
+			groups,
 		};
 	}
 
-	async getWeeklyStats(): Promise<{
-		sessionCount: number;
-		totalCost: number;
-		totalTokens: { input: number; output: number };
-	}> {
-		const startOfWeekTimestamp = startOfWeek(new Date(), { weekStartsOn: 0 }).getTime(); // Sunday as start
-
-		const sessionCount = await this.getSessionCountSince(startOfWeekTimestamp);
-
-		// Get token stats from sessions
-		const tokenStats = await this.db.get<TokenStatsRow>(
-			`
-      SELECT 
-        COALESCE(SUM(total_tokens), 0) as total_tokens
-      FROM sessions
-      WHERE start_time >= ?
-    `,
-			startOfWeekTimestamp
-		);
+	/**
+	 * Store a batch of token samples, each a chunk in a single statement
+	 */
+	async recordTokenSamples(samples: TokenSample[]): Promise<void> {
+		for (const sample of samples) {
+			assertValidId(sample.sessionId, 'session ID');
+			if (sample.instanceId) assertValidId(sample.instanceId, 'instance ID');
+		}
 
-		return {
-			sessionCount,
-			totalCost: 0, // No cost tracking for now
-			totalTokens: {
-				input: tokenStats?.total_tokens || 0,
-				output: 0,
-			},
-		};
+		for (let i = 0; i < samples.length; i += SAMPLE_INSERT_CHUNK) {
+			const chunk = samples.slice(i, i + SAMPLE_INSERT_CHUNK);
+			await this.db.run(
+				`INSERT INTO token_samples (
+					session_id, instance_id, model, timestamp, total_tokens,
+					input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens
+				) VALUES ${chunk.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}`,
+				...chunk.flatMap((sample) => [
+					sample.sessionId,
+					sample.instanceId ?? '',
+					normalizeModel(sample.model),
+					sample.timestamp,
+					sample.totalTokens,
+					sample.tokens.input,
+					sample.tokens.output,
+					sample.tokens.cacheCreation,
+					sample.tokens.cacheRead,
+				])
+			);
+		}
+		// Samples don't change the snapshot, but prompt takes a state file older than the database as stale
+		if (samples.length > 0) this.markStateChanged();
 	}
 
-	async getBillingCycleStats(renewalDay: number): Promise<{
-		sessionCount: number;
-		totalCost: number;
-		totalTokens: { input: number; output: number };
-	}> {
-		// Validate renewal day
-		if (typeof renewalDay !== 'number' || renewalDay < 1 || renewalDay > 31) {
-			throw new ValidationError('Invalid renewal day');
+	/**
+	 * Tokens used per 1- or 5-minute bucket, including empty buckets. A session's series covers its window
+	 * (narrowed by from/to when given); without a session both from and to are required.
+	 */
+	async getTokenSeries(filter: SeriesFilter, resolution: SeriesResolution = 1): Promise<TokenSeriesPoint[]> {
+		if (!SERIES_RESOLUTIONS.includes(resolution)) {
+			throw new ValidationError(`Series resolution must be ${SERIES_RESOLUTIONS.join(' or ')} minutes`);
 		}
-		
-		// Calculate the start of the current billing cycle
-		const now = new Date();
-		const currentDay = now.getDate();
 
-		let cycleStart: Date;
-		if (currentDay >= renewalDay) {
-			// We're past the renewal day this month
-			cycleStart = new Date(now.getFullYear(), now.getMonth(), renewalDay);
-		} else {
-			// We haven't reached the renewal day yet, so cycle started last month
-			cycleStart = new Date(now.getFullYear(), now.getMonth() - 1, renewalDay);
+		let from = filter.from?.getTime();
+		let to = filter.to?.getTime();
+		if (filter.sessionId) {
+			assertValidId(filter.sessionId, 'session ID');
+			const session = await this.db.get<SessionRow>(`SELECT * FROM sessions WHERE id = ?`, filter.sessionId);
+			if (!session) {
+				throw new ValidationError(`Session ${filter.sessionId} not found`);
+			}
+			from = Math.max(from ?? session.start_time, session.start_time);
+			to = Math.min(to ?? session.end_time, session.end_time);
+		}
+		if (from === undefined || to === undefined || Number.isNaN(from) || Number.isNaN(to) || from >= to) {
+			throw new ValidationError('Series range must end after it starts');
 		}
 
-		const cycleStartTimestamp = cycleStart.getTime();
-
-		const sessionCount = await this.getSessionCountSince(cycleStartTimestamp);
+		const bucketMs = resolution * 60 * 1000;
+		const firstBucket = Math.floor(from / bucketMs) * bucketMs;
+		if ((to - firstBucket) / bucketMs > MAX_SERIES_POINTS) {
+			throw new ValidationError('Too many points in this range; use 5-minute resolution or a shorter range');
+		}
 
-		// Get token stats from sessions
-		const tokenStats = await this.db.get<TokenStatsRow>(
+		const sessionClause = filter.sessionId ? 'AND session_id = ?' : '';
+		const rows = await this.db.all<TokenSeriesRow[]>(
 			`
-      SELECT 
-        COALESCE(SUM(total_tokens), 0) as total_tokens
-      FROM sessions
-      WHERE start_time >= ?
+      SELECT
+        (timestamp / ?) * ? as bucket,
+        SUM(total_tokens) as total_tokens,
+        SUM(input_tokens) as input_tokens,
+        SUM(output_tokens) as output_tokens,
+        SUM(cache_creation_tokens) as cache_creation_tokens,
+        SUM(cache_read_tokens) as cache_read_tokens
+      FROM token_samples
+      WHERE timestamp >= ? AND timestamp < ? ${sessionClause}
+      GROUP BY bucket
     `,
-			cycleStartTimestamp
+			bucketMs,
+			bucketMs,
+			firstBucket,
+			to,
+			...(filter.sessionId ? [filter.sessionId] : [])
 		);
+		const byBucket = new Map(rows.map((row) => [row.bucket, row]));
 
-		return {
-			sessionCount,
-			totalCost: 0,
-			totalTokens: {
-				input: tokenStats?.total_tokens || 0,
-				output: 0,
-			},
-		};
+		const points: TokenSeriesPoint[] = [];
+		for (let bucket = firstBucket; bucket < to; bucket += bucketMs) {
+			const row = byBucket.get(bucket);
+			points.push({ start: new Date(bucket), totalTokens: { total: row?.total_tokens || 0, ...rowToTokenUsage(row) } });
+		}
+		return points;
 	}
 
-	private async getSessionCountSince(timestamp: number): Promise<number> {
-		// Simply count sessions since timestamp
-		const result = await this.db.get<CountRow>(`SELECT COUNT(*) as count FROM sessions WHERE start_time >= ?`, timestamp);
-		return result?.count || 0;
+	/**
+	 * API-equivalent cost per session for sessions matching the WHERE clause.
+	 * Tokens recorded before model tracking existed are priced at the fallback model's rates.
+	 */
+	private async estimateSessionCosts(where: string, ...params: unknown[]): Promise<Map<string, number>> {
+		const pricing = await configManager.getPricing();
+		const sessions = await this.db.all<SessionRow[]>(`SELECT * FROM sessions WHERE ${where}`, ...params);
+		const modelRows = await this.db.all<ModelUsageRow[]>(
+			`SELECT * FROM model_usage WHERE session_id IN (SELECT id FROM sessions WHERE ${where})`,
+			...params
+		);
+
+		const rowsBySession = new Map<string, ModelUsageRow[]>();
+		for (const row of modelRows) {
+			rowsBySession.set(row.session_id, [...(rowsBySession.get(row.session_id) ?? []), row]);
+		}
+
+		const costs = new Map<string, number>();
+		for (const session of sessions) {
+			let cost = 0;
+			let attributedTotal = 0;
+			let attributedUsage = emptyUsage();
+			for (const row of rowsBySession.get(session.id) ?? []) {
+				cost += estimateCost(row.model, row.total_tokens || 0, rowToTokenUsage(row), pricing);
+				attributedTotal += row.total_tokens || 0;
+				attributedUsage = addUsage(attributedUsage, rowToTokenUsage(row));
+			}
+
+			// Whatever the session counted beyond its per-model rows has no known model
+			const sessionUsage = rowToTokenUsage(session);
+			const unattributedUsage: TokenUsage = {
+				input: Math.max(0, sessionUsage.input - attributedUsage.input),
+				output: Math.max(0, sessionUsage.output - attributedUsage.output),
+				cacheCreation: Math.max(0, sessionUsage.cacheCreation - attributedUsage.cacheCreation),
+				cacheRead: Math.max(0, sessionUsage.cacheRead - attributedUsage.cacheRead),
+			};
+			const unattributedTotal = Math.max(0, (session.total_tokens || 0) - attributedTotal);
+			cost += estimateCost(UNKNOWN_MODEL, unattributedTotal, unattributedUsage, pricing);
+
+			costs.set(session.id, cost);
+		}
+
+		return costs;
 	}
 
 	//
 
-	async getSessionsWithStats(limit: number = 10): Promise<SessionWithStats[]> {
+	async getSessionsWithStats(limit: number = 10, filter: SessionFilter = {}): Promise<SessionWithStats[]> {
 		// Validate limit
 		if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 1000) {
 			limit = 10; // Default to safe value
 		}
-		const rows = await this.db.all<SessionRow[]>(
+
+		return this.querySessions(filter, 'DESC', limit);
+	}
+
+	/**
+	 * Sessions matching the filter (oldest first) with their instances and per-model usage
+	 */
+	async getSessionDetails(filter: SessionFilter = {}): Promise<SessionDetail[]> {
+		const sessions = await this.querySessions(filter, 'ASC');
+		if (sessions.length === 0) {
+			return [];
+		}
+
+		const ids = sessions.map((session) => session.id);
+		const instanceRows = await this.allForIds<InstanceRow>(
+			ids,
+			(placeholders) => `SELECT * FROM instances WHERE session_id IN (${placeholders}) ORDER BY start_time ASC`
+		);
+		const modelRows = await this.allForIds<ModelUsageRow>(
+			ids,
+			(placeholders) => `SELECT * FROM model_usage WHERE session_id IN (${placeholders}) ORDER BY first_seen ASC`
+		);
+		// Sessions imported before contributions were recorded can't be told apart from local usage
+		const importedRows = await this.allForIds<ImportedSessionRow>(
+			ids,
+			(placeholders) =>
+				`SELECT * FROM imported_sessions WHERE target_id IN (${placeholders}) AND total_tokens IS NOT NULL`
+		);
+
+		return sessions.map((session) => ({
+			...session,
+			instances: instanceRows
+				.filter((row) => row.session_id === session.id)
+				.map((row) => this.rowToInstanceData(row)),
+			modelUsage: modelRows
+				.filter((row) => row.session_id === session.id)
+				.map((row) => ({
+					model: row.model,
+					instanceId: row.instance_id || null,
+					totalTokens: row.total_tokens || 0,
+					tokens: rowToTokenUsage(row),
+					firstSeen: new Date(row.first_seen),
+					lastSeen: new Date(row.last_seen),
+				})),
+			imported: importedRows
+				.filter((row) => row.target_id === session.id)
+				.map((row) => ({
+					sourceId: row.source_id,
+					totalTokens: row.total_tokens || 0,
+					tokens: rowToTokenUsage(row),
+				})),
+		}));
+	}
+
+	private async querySessions(
+		filter: SessionFilter,
+		order: 'ASC' | 'DESC',
+		limit?: number
+	): Promise<SessionWithStats[]> {
+		const conditions: string[] = [];
+		const params: unknown[] = [];
+		if (filter.project) {
+			// Sessions any instance of the project joined
+			conditions.push(`s.id IN (SELECT session_id FROM instances WHERE project = ?)`);
+			params.push(filter.project);
+		}
+		if (filter.since) {
+			conditions.push(`s.start_time >= ?`);
+			params.push(filter.since.getTime());
+		}
+		if (filter.until) {
+			conditions.push(`s.start_time < ?`);
+			params.push(filter.until.getTime());
+		}
+		const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+		const limitClause = limit !== undefined ? 'LIMIT ?' : '';
+		if (limit !== undefined) {
+			params.push(limit);
+		}
+
+		const rows = await this.db.all<SessionWithInstanceCountRow[]>(
 			`
 			SELECT 
 				s.*,
-				COALESCE(s.total_tokens, 0) as total_tokens
+				COALESCE(s.total_tokens, 0) as total_tokens,
+				(SELECT COUNT(*) FROM instances i WHERE i.session_id = s.id) as instance_count
 			FROM sessions s
-			ORDER BY s.start_time DESC
-			LIMIT ?
+			${where}
+			ORDER BY s.start_time ${order}
+			${limitClause}
 		`,
-			limit
+			...params
 		);
 
-		return rows.map((row) => ({
-			...this.rowToSessionData(row),
-			totalTokens: row.total_tokens || 0,
-		}));
+		const costs = new Map<string, number>();
+		for (let i = 0; i < rows.length; i += ID_QUERY_CHUNK) {
+			const ids = rows.slice(i, i + ID_QUERY_CHUNK).map((row) => row.id);
+			for (const [id, cost] of await this.estimateSessionCosts(`id IN (${ids.map(() => '?').join(', ')})`, ...ids)) {
+				costs.set(id, cost);
+			}
+		}
+		return rows.map((row) => this.rowToSessionWithStats(row, costs.get(row.id) ?? 0));
 	}
 
-	async updateSessionTokens(sessionId: string, totalTokens: number): Promise<void> {
-		// Validate inputs
-		if (!sessionId || typeof sessionId !== 'string' || sessionId.length > 100) {
-			throw new Error('Invalid session ID');
+	/**
+	 * Run a query over an `IN (...)` list of IDs in chunks. Rows come back in order within each chunk only.
+	 */
+	private async allForIds<T>(ids: string[], query: (placeholders: string) => string): Promise<T[]> {
+		const rows: T[] = [];
+		for (let i = 0; i < ids.length; i += ID_QUERY_CHUNK) {
+			const chunk = ids.slice(i, i + ID_QUERY_CHUNK);
+			rows.push(...(await this.db.all<T[]>(query(chunk.map(() => '?').join(', ')), ...chunk)));
 		}
-		if (!/^[a-zA-Z0-9-]+$/.test(sessionId)) {
-			throw new Error('Session ID contains invalid characters');
+		return rows;
+	}
+
+	/**
+	 * Look up a session by its full ID or a unique ID prefix (as shown by `sessions`)
+	 */
+	async getSession(idOrPrefix: string): Promise<SessionWithStats | null> {
+		assertValidId(idOrPrefix, 'session ID');
+
+		const rows = await this.db.all<SessionWithInstanceCountRow[]>(
+			`
+			SELECT 
+				s.*,
+				COALESCE(s.total_tokens, 0) as total_tokens,
+				(SELECT COUNT(*) FROM instances i WHERE i.session_id = s.id) as instance_count
+			FROM sessions s
+			WHERE s.id = ? OR s.id LIKE ?
+			ORDER BY (s.id = ?) DESC, s.start_time DESC
+			LIMIT 2
+		`,
+			idOrPrefix,
+			`${idOrPrefix}%`,
+			idOrPrefix
+		);
+
+		if (rows.length === 0) {
+			return null;
 		}
-		if (typeof totalTokens !== 'number' || totalTokens < 0 || totalTokens > Number.MAX_SAFE_INTEGER) {
+		if (rows[0].id !== idOrPrefix && rows.length > 1) {
+			throw new ValidationError(`Session ID prefix "${idOrPrefix}" is ambiguous`);
+		}
+
+		const costs = await this.estimateSessionCosts(`id = ?`, rows[0].id);
+		return this.rowToSessionWithStats(rows[0], costs.get(rows[0].id) ?? 0);
+	}
+
+	//
+
+	async createInstance(instance: NewInstance): Promise<InstanceData> {
+		assertValidId(instance.id, 'instance ID');
+
+		const now = Date.now();
+		await this.db.run(
+			`INSERT INTO instances (id, pid, cwd, project, args, model, start_time) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			instance.id,
+			instance.pid,
+			instance.cwd,
+			instance.project,
+			JSON.stringify(instance.args),
+			normalizeModel(instance.model),
+			now
+		);
+
+		return {
+			id: instance.id,
+			sessionId: null,
+			pid: instance.pid,
+			cwd: instance.cwd,
+			project: instance.project,
+			args: instance.args,
+			startTime: new Date(now),
+			endTime: null,
+			exitCode: null,
+			totalTokens: 0,
+			tokens: emptyUsage(),
+			model: normalizeModel(instance.model),
+		};
+	}
+
+	async attachInstanceToSession(instanceId: string, sessionId: string): Promise<void> {
+		assertValidId(instanceId, 'instance ID');
+		assertValidId(sessionId, 'session ID');
+
+		await this.db.run(`UPDATE instances SET session_id = ? WHERE id = ?`, sessionId, instanceId);
+	}
+
+	async finishInstance(instanceId: string, exitCode: number | null): Promise<void> {
+		assertValidId(instanceId, 'instance ID');
+
+		await this.db.run(
+			`UPDATE instances SET end_time = ?, exit_code = ? WHERE id = ? AND end_time IS NULL`,
+			Date.now(),
+			exitCode,
+			instanceId
+		);
+	}
+
+	async getInstance(instanceId: string): Promise<InstanceData | null> {
+		assertValidId(instanceId, 'instance ID');
+
+		const row = await this.db.get<InstanceRow>(`SELECT * FROM instances WHERE id = ?`, instanceId);
+		return row ? this.rowToInstanceData(row) : null;
+	}
+
+	async getInstancesForSession(sessionId: string): Promise<InstanceData[]> {
+		assertValidId(sessionId, 'session ID');
+
+		const rows = await this.db.all<InstanceRow[]>(
+			`SELECT * FROM instances WHERE session_id = ? ORDER BY start_time ASC`,
+			sessionId
+		);
+
+		return rows.map((row) => this.rowToInstanceData(row));
+	}
+
+	/**
+	 * Instances that haven't recorded an exit, newest first. A wrapper that crashed never does, so callers
+	 * should check the pid is still alive.
+	 */
+	async getOpenInstances(): Promise<InstanceData[]> {
+		const rows = await this.db.all<InstanceRow[]>(
+			`SELECT * FROM instances WHERE end_time IS NULL ORDER BY start_time DESC`
+		);
+		return rows.map((row) => this.rowToInstanceData(row));
+	}
+
+	//
+
+	/**
+	 * Overwrite a session's token total. Everything recorded against the session (the input/output/cache split,
+	 * per-model and per-instance tokens, the time series) is scaled by the same factor so costs and breakdowns
+	 * agree with the new total; a session with no tokens yet gets the total as usage of an unknown model.
+	 */
+	async updateSessionTokens(sessionId: string, totalTokens: number): Promise<void> {
+		assertValidId(sessionId, 'session ID');
+		if (!Number.isInteger(totalTokens) || totalTokens < 0 || totalTokens > Number.MAX_SAFE_INTEGER) {
 			throw new ValidationError('Invalid token count');
 		}
 
-		await this.db.run(`UPDATE sessions SET total_tokens = ? WHERE id = ?`, totalTokens, sessionId);
+		await this.db.exec('BEGIN IMMEDIATE');
+		try {
+			const session = await this.db.get<SessionRow>(`SELECT * FROM sessions WHERE id = ?`, sessionId);
+			if (!session) {
+				throw new ValidationError(`Session ${sessionId} not found`);
+			}
+
+			const previousTokens = session.total_tokens || 0;
+			await this.db.run(`UPDATE sessions SET total_tokens = ? WHERE id = ?`, totalTokens, sessionId);
+			if (previousTokens > 0) {
+				const factor = totalTokens / previousTokens;
+				const scale = (columns: string[]) =>
+					columns.map((column) => `${column} = ROUND(COALESCE(${column}, 0) * ?)`).join(', ');
+				const splitFactors = SPLIT_COLUMNS.map(() => factor);
+				await this.db.run(`UPDATE sessions SET ${scale(SPLIT_COLUMNS)} WHERE id = ?`, ...splitFactors, sessionId);
+				for (const table of ['instances', 'model_usage', 'token_samples']) {
+					await this.db.run(
+						`UPDATE ${table} SET ${scale(['total_tokens', ...SPLIT_COLUMNS])} WHERE session_id = ?`,
+						factor,
+						...splitFactors,
+						sessionId
+					);
+				}
+			} else if (totalTokens > 0) {
+				const now = Date.now();
+				await this.upsertModelUsage(sessionId, null, UNKNOWN_MODEL, totalTokens, emptyUsage(), now, now);
+			}
+			await this.db.exec('COMMIT');
+		} catch (error) {
+			await this.db.exec('ROLLBACK');
+			throw error;
+		}
+
+		this.sessionsChanged();
 	}
 
-	async incrementSessionTokens(sessionId: string, tokensToAdd: number): Promise<void> {
+	async incrementSessionTokens(
+		sessionId: string,
+		tokensToAdd: number,
+		attribution: TokenAttribution = {}
+	): Promise<void> {
 		// Validate inputs
 		if (!sessionId || typeof sessionId !== 'string' || sessionId.length > 100) {
 			throw new Error('Invalid session ID');
@@ -436,105 +1163,1405 @@ export class SessionTracker {
 			tokensToAdd,
 			sessionId
 		);
+
+		// Attribute the same tokens to the instance that produced them
+		if (attribution.instanceId) {
+			assertValidId(attribution.instanceId, 'instance ID');
+			await this.db.run(
+				`UPDATE instances SET total_tokens = COALESCE(total_tokens, 0) + ? WHERE id = ?`,
+				tokensToAdd,
+				attribution.instanceId
+			);
+		}
+
+		await this.addModelUsage(sessionId, attribution, tokensToAdd, emptyUsage());
+		this.markStateChanged();
 	}
 
-	async purgeSessionsKeepLatest(keep: number): Promise<number> {
-		// Validate input
-		if (typeof keep !== 'number' || !Number.isInteger(keep)) {
-			throw new ValidationError('Keep count must be an integer');
+	/**
+	 * Add an input/output/cache breakdown to a session (and the instance that produced it)
+	 */
+	async incrementSessionTokenUsage(
+		sessionId: string,
+		usage: TokenUsage,
+		attribution: TokenAttribution = {}
+	): Promise<void> {
+		assertValidId(sessionId, 'session ID');
+		for (const count of Object.values(usage)) {
+			if (typeof count !== 'number' || count < 0 || count > Number.MAX_SAFE_INTEGER) {
+				throw new ValidationError('Invalid token count');
+			}
 		}
-		if (keep < 0) keep = 0;
-		if (keep > 10000) {
-			throw new ValidationError('Keep count too large (max 10000)');
+
+		const updateUsage = `
+			input_tokens = COALESCE(input_tokens, 0) + ?,
+			output_tokens = COALESCE(output_tokens, 0) + ?,
+			cache_creation_tokens = COALESCE(cache_creation_tokens, 0) + ?,
+			cache_read_tokens = COALESCE(cache_read_tokens, 0) + ?`;
+		const values = [usage.input, usage.output, usage.cacheCreation, usage.cacheRead];
+
+		await this.db.run(`UPDATE sessions SET ${updateUsage} WHERE id = ?`, ...values, sessionId);
+
+		if (attribution.instanceId) {
+			assertValidId(attribution.instanceId, 'instance ID');
+			await this.db.run(`UPDATE instances SET ${updateUsage} WHERE id = ?`, ...values, attribution.instanceId);
 		}
 
-		// Delete all sessions except the latest N by start_time
-		const result = await this.db.run(
-			`DELETE FROM sessions WHERE id NOT IN (
-        SELECT id FROM sessions ORDER BY start_time DESC LIMIT ?
-      )`,
-			keep
-		);
-		// sqlite3 run returns { changes }
-		return result?.changes ?? 0;
+		await this.addModelUsage(sessionId, attribution, 0, usage);
 	}
 
-	private rowToSessionData(row: SessionRow): SessionData {
-		return {
+	private async addModelUsage(
+		sessionId: string,
+		attribution: TokenAttribution,
+		totalTokens: number,
+		usage: TokenUsage
+	): Promise<void> {
+		if (!attribution.model) return;
+
+		const now = Date.now();
+		await this.upsertModelUsage(sessionId, attribution.instanceId ?? null, attribution.model, totalTokens, usage, now, now);
+	}
+
+	private async upsertModelUsage(
+		sessionId: string,
+		instanceId: string | null,
+		model: string,
+		totalTokens: number,
+		usage: TokenUsage,
+		firstSeen: number,
+		lastSeen: number
+	): Promise<void> {
+		await this.db.run(
+			`
+			INSERT INTO model_usage (
+				session_id, instance_id, model, total_tokens,
+				input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens,
+				first_seen, last_seen
+			)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT (session_id, instance_id, model) DO UPDATE SET
+				total_tokens = total_tokens + excluded.total_tokens,
+				input_tokens = input_tokens + excluded.input_tokens,
+				output_tokens = output_tokens + excluded.output_tokens,
+				cache_creation_tokens = cache_creation_tokens + excluded.cache_creation_tokens,
+				cache_read_tokens = cache_read_tokens + excluded.cache_read_tokens,
+				first_seen = MIN(first_seen, excluded.first_seen),
+				last_seen = MAX(last_seen, excluded.last_seen)
+		`,
+			sessionId,
+			instanceId ?? '',
+			normalizeModel(model),
+			totalTokens,
+			usage.input,
+			usage.output,
+			usage.cacheCreation,
+			usage.cacheRead,
+			firstSeen,
+			lastSeen
+		);
+	}
+
+	/**
+	 * Merge sessions from another machine's database or export into this one.
+	 * Sessions recorded here are skipped, and ones imported before replace what they contributed then; a session
+	 * overlapping a local window is the same subscription window seen from another machine, so it is folded into
+	 * the local session. One that would join up several local windows is left out and reported as conflicting.
+	 */
+	async importSessions(sessions: SessionDetail[]): Promise<ImportResult> {
+		const result: ImportResult = {
+			added: 0,
+			merged: 0,
+			updated: 0,
+			skipped: 0,
+			conflicting: 0,
+			conflictingIds: [],
+			instancesAdded: 0,
+		};
+
+		for (const session of sessions) {
+			assertValidId(session.id, 'session ID');
+			for (const instance of session.instances) {
+				assertValidId(instance.id, 'instance ID');
+			}
+			for (const usage of session.imported) {
+				assertValidId(usage.sourceId, 'session ID');
+			}
+			if (!(session.endTime.getTime() > session.startTime.getTime())) {
+				throw new ValidationError(`Session ${session.id} ends before it starts`);
+			}
+		}
+
+		await this.db.exec('BEGIN IMMEDIATE');
+		try {
+			for (const session of [...sessions].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())) {
+				const outcome = await this.importSession(session);
+				result[outcome.status]++;
+				if (outcome.status === 'conflicting') {
+					result.conflictingIds.push(session.id);
+				}
+				result.instancesAdded += outcome.instancesAdded;
+			}
+			await this.db.exec('COMMIT');
+		} catch (error) {
+			await this.db.exec('ROLLBACK');
+			throw error;
+		}
+
+		// Imported sessions change every count and the active window
+		statsCache.clear();
+		this.markStateChanged();
+
+		return result;
+	}
+
+	private async importSession(
+		session: SessionDetail
+	): Promise<{ status: 'added' | 'merged' | 'updated' | 'skipped' | 'conflicting'; instancesAdded: number }> {
+		// A session recorded here (e.g. our own export imported back) is never merged into itself
+		if (await this.db.get<SessionRow>(`SELECT id FROM sessions WHERE id = ?`, session.id)) {
+			return { status: 'skipped', instancesAdded: 0 };
+		}
+
+		// Only what the source machine used itself: usage it merged in from elsewhere is imported separately
+		const localOnly = subtractImported(session);
+		const previous = await this.db.get<ImportedSessionRow>(
+			`SELECT * FROM imported_sessions WHERE source_id = ?`,
+			session.id
+		);
+
+		let status: 'added' | 'merged' | 'updated' | 'skipped';
+		let targetId: string;
+		if (previous) {
+			// Imported before: its usage replaces what was imported then, unless that was never recorded
+			// or the window it went into has since been deleted
+			const target = await this.db.get<SessionRow>(`SELECT id FROM sessions WHERE id = ?`, previous.target_id);
+			if (previous.total_tokens === null || !target) {
+				return { status: 'skipped', instancesAdded: 0 };
+			}
+			targetId = target.id;
+			const changed = await this.recordImportedUsage(session.id, targetId, localOnly, 'replace');
+			status = changed ? 'updated' : 'skipped';
+		} else {
+			const start = session.startTime.getTime();
+			const end = session.endTime.getTime();
+			const overlappingRows = await this.db.all<SessionRow[]>(
+				`SELECT * FROM sessions WHERE start_time < ? AND end_time > ? ORDER BY start_time ASC LIMIT 2`,
+				end,
+				start
+			);
+			if (overlappingRows.length > 1) {
+				return { status: 'conflicting', instancesAdded: 0 };
+			}
+			const overlapping = overlappingRows[0];
+
+			if (overlapping) {
+				// Same window seen from two machines: it covers both, and must still fit between its neighbours
+				targetId = overlapping.id;
+				const mergedStart = Math.min(start, overlapping.start_time);
+				const mergedEnd = Math.max(end, overlapping.end_time);
+				const tooLong = mergedEnd - mergedStart > MAX_MANUAL_WINDOW_MS;
+				if (tooLong || (await this.findOverlap(mergedStart, mergedEnd, targetId))) {
+					return { status: 'conflicting', instancesAdded: 0 };
+				}
+				if (mergedStart !== overlapping.start_time || mergedEnd !== overlapping.end_time) {
+					await this.db.run(
+						`UPDATE sessions SET start_time = ?, end_time = ? WHERE id = ?`,
+						mergedStart,
+						mergedEnd,
+						targetId
+					);
+				}
+				status = 'merged';
+			} else {
+				// A local ID of its own, so usage this machine later adds to the window isn't mistaken for the source's
+				targetId = randomUUID();
+				await this.db.run(
+					`INSERT INTO sessions (id, start_time, end_time, total_tokens, source)
+					VALUES (?, ?, ?, 0, 'import')`,
+					targetId,
+					start,
+					end
+				);
+				status = 'added';
+			}
+			await this.recordImportedUsage(session.id, targetId, localOnly, 'replace');
+		}
+
+		// Usage the source had merged in from other machines, unless it came from here. A copy passed along
+		// this way can be older than one imported directly, so it never lowers what is recorded.
+		for (const usage of session.imported) {
+			if (await this.db.get<SessionRow>(`SELECT id FROM sessions WHERE id = ?`, usage.sourceId)) continue;
+			if (await this.recordImportedUsage(usage.sourceId, targetId, usage, 'increase') && status === 'skipped') {
+				status = 'updated';
+			}
+		}
+
+		let instancesAdded = 0;
+		for (const instance of session.instances) {
+			const inserted = await this.db.run(
+				`INSERT OR IGNORE INTO instances (
+					id, session_id, pid, cwd, project, args, model, start_time, end_time, exit_code, total_tokens,
+					input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens
+				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				instance.id,
+				targetId,
+				instance.pid,
+				instance.cwd,
+				instance.project,
+				JSON.stringify(instance.args),
+				normalizeModel(instance.model),
+				instance.startTime.getTime(),
+				instance.endTime?.getTime() ?? null,
+				instance.exitCode,
+				instance.totalTokens,
+				instance.tokens.input,
+				instance.tokens.output,
+				instance.tokens.cacheCreation,
+				instance.tokens.cacheRead
+			);
+			if (inserted?.changes) {
+				instancesAdded++;
+				continue;
+			}
+			// Seen before: take the newer copy, which has used more tokens
+			await this.db.run(
+				`UPDATE instances SET
+					end_time = ?, exit_code = ?, total_tokens = ?,
+					input_tokens = ?, output_tokens = ?, cache_creation_tokens = ?, cache_read_tokens = ?
+				WHERE id = ? AND COALESCE(total_tokens, 0) < ?`,
+				instance.endTime?.getTime() ?? null,
+				instance.exitCode,
+				instance.totalTokens,
+				instance.tokens.input,
+				instance.tokens.output,
+				instance.tokens.cacheCreation,
+				instance.tokens.cacheRead,
+				instance.id,
+				instance.totalTokens
+			);
+		}
+
+		for (const usage of session.modelUsage) {
+			// Usage without an instance is kept apart per source session so a re-import can replace it
+			const instanceId = usage.instanceId ?? `${IMPORTED_USAGE_PREFIX}${session.id}`;
+			const sourceId = instanceId.startsWith(IMPORTED_USAGE_PREFIX)
+				? instanceId.slice(IMPORTED_USAGE_PREFIX.length)
+				: null;
+			if (sourceId && (await this.db.get<SessionRow>(`SELECT id FROM sessions WHERE id = ?`, sourceId))) {
+				continue;
+			}
+			await this.db.run(
+				`
+				INSERT INTO model_usage (
+					session_id, instance_id, model, total_tokens,
+					input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens,
+					first_seen, last_seen
+				)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT (session_id, instance_id, model) DO UPDATE SET
+					total_tokens = excluded.total_tokens,
+					input_tokens = excluded.input_tokens,
+					output_tokens = excluded.output_tokens,
+					cache_creation_tokens = excluded.cache_creation_tokens,
+					cache_read_tokens = excluded.cache_read_tokens,
+					first_seen = MIN(first_seen, excluded.first_seen),
+					last_seen = MAX(last_seen, excluded.last_seen)
+				WHERE excluded.total_tokens > COALESCE(model_usage.total_tokens, 0)
+			`,
+				targetId,
+				instanceId,
+				normalizeModel(usage.model),
+				usage.totalTokens,
+				usage.tokens.input,
+				usage.tokens.output,
+				usage.tokens.cacheCreation,
+				usage.tokens.cacheRead,
+				usage.firstSeen.getTime(),
+				usage.lastSeen.getTime()
+			);
+		}
+
+		return { status, instancesAdded };
+	}
+
+	/**
+	 * Record what an imported session contributes to a local window, adjusting the window's totals by the
+	 * change since the last import. 'increase' only ever raises it. True when anything changed.
+	 */
+	private async recordImportedUsage(
+		sourceId: string,
+		targetId: string,
+		usage: Pick<ImportedUsage, 'totalTokens' | 'tokens'>,
+		mode: 'replace' | 'increase'
+	): Promise<boolean> {
+		const previous = await this.db.get<ImportedSessionRow>(
+			`SELECT * FROM imported_sessions WHERE source_id = ?`,
+			sourceId
+		);
+		if (previous && previous.total_tokens === null) {
+			return false;
+		}
+		const before = { total: previous?.total_tokens || 0, ...rowToTokenUsage(previous) };
+		const unchanged =
+			before.total === usage.totalTokens &&
+			before.input === usage.tokens.input &&
+			before.output === usage.tokens.output &&
+			before.cacheCreation === usage.tokens.cacheCreation &&
+			before.cacheRead === usage.tokens.cacheRead;
+		if (previous && (unchanged || (mode === 'increase' && usage.totalTokens <= before.total))) {
+			return false;
+		}
+
+		// A contribution stays with the window it first went into
+		const windowId = previous?.target_id ?? targetId;
+		await this.db.run(
+			`UPDATE sessions SET
+				total_tokens = COALESCE(total_tokens, 0) + ?,
+				input_tokens = COALESCE(input_tokens, 0) + ?,
+				output_tokens = COALESCE(output_tokens, 0) + ?,
+				cache_creation_tokens = COALESCE(cache_creation_tokens, 0) + ?,
+				cache_read_tokens = COALESCE(cache_read_tokens, 0) + ?
+			WHERE id = ?`,
+			usage.totalTokens - before.total,
+			usage.tokens.input - before.input,
+			usage.tokens.output - before.output,
+			usage.tokens.cacheCreation - before.cacheCreation,
+			usage.tokens.cacheRead - before.cacheRead,
+			windowId
+		);
+		await this.db.run(
+			`INSERT INTO imported_sessions (
+				source_id, target_id, imported_at, total_tokens,
+				input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens
+			) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT (source_id) DO UPDATE SET
+				imported_at = excluded.imported_at,
+				total_tokens = excluded.total_tokens,
+				input_tokens = excluded.input_tokens,
+				output_tokens = excluded.output_tokens,
+				cache_creation_tokens = excluded.cache_creation_tokens,
+				cache_read_tokens = excluded.cache_read_tokens`,
+			sourceId,
+			windowId,
+			Date.now(),
+			usage.totalTokens,
+			usage.tokens.input,
+			usage.tokens.output,
+			usage.tokens.cacheCreation,
+			usage.tokens.cacheRead
+		);
+		return true;
+	}
+
+	/**
+	 * Record usage reconstructed from Claude Code transcripts, opening windows the same way createSession does.
+	 * Messages recorded by an earlier backfill are skipped, and windows the wrapper tracked live keep their own totals.
+	 */
+	async backfillMessages(messages: BackfillMessage[]): Promise<BackfillResult> {
+		const result: BackfillResult = {
+			messagesAdded: 0,
+			messagesSkipped: 0,
+			messagesAlreadyTracked: 0,
+			sessionsCreated: 0,
+			tokensAdded: 0,
+		};
+
+		for (const message of messages) {
+			if (!message.messageId || Number.isNaN(message.timestamp.getTime())) {
+				throw new ValidationError('Backfilled messages need an id and a valid timestamp');
+			}
+		}
+
+		const sessionLengthMs = await configManager.getSessionLengthMs();
+		const alignment = await configManager.getWindowAlignment();
+
+		await this.db.exec('BEGIN IMMEDIATE');
+		try {
+			const recorded = new Set(
+				(await this.db.all<MessageIdRow[]>(`SELECT message_id FROM message_usage`)).map((row) => row.message_id)
+			);
+			const windows = await this.db.all<SessionWithInstanceCountRow[]>(`
+				SELECT s.*, (SELECT COUNT(*) FROM instances i WHERE i.session_id = s.id) as instance_count
+				FROM sessions s
+				ORDER BY s.start_time ASC
+			`);
+
+			const sessionUsage = new Map<string, { totalTokens: number; usage: TokenUsage }>();
+			const modelUsage = new Map<string, { sessionId: string } & Omit<SessionModelUsage, 'instanceId'>>();
+
+			const sorted = [...messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+			for (const message of sorted) {
+				if (recorded.has(message.messageId)) {
+					result.messagesSkipped++;
+					continue;
+				}
+				recorded.add(message.messageId);
+
+				const timestamp = message.timestamp.getTime();
+				const { index, window: existing } = findWindowAt(windows, timestamp);
+				let window = existing;
+				if (!window) {
+					window = await this.insertBackfillWindow(windows, index, timestamp, sessionLengthMs, alignment);
+					result.sessionsCreated++;
+				}
+
+				// Wrapper-tracked windows already counted these tokens from the live stream; backfilled and
+				// manually started ones only know usage santa-claude never saw
+				const counted =
+					(window.source === 'backfill' || window.source === 'manual') && window.instance_count === 0;
+				const model = normalizeModel(message.model);
+
+				await this.db.run(
+					`INSERT INTO message_usage (
+						message_id, session_id, conversation_id, timestamp, model, cwd,
+						input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens, counted
+					) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+					message.messageId,
+					window.id,
+					message.conversationId,
+					timestamp,
+					model,
+					message.cwd,
+					message.usage.input,
+					message.usage.output,
+					message.usage.cacheCreation,
+					message.usage.cacheRead,
+					counted ? 1 : 0
+				);
+				result.messagesAdded++;
+
+				if (!counted) {
+					result.messagesAlreadyTracked++;
+					continue;
+				}
+
+				// Same total the wrapper records for JSON output, which has no running counter either
+				const totalTokens = message.usage.input + message.usage.output;
+				result.tokensAdded += totalTokens;
+
+				const session = sessionUsage.get(window.id) ?? { totalTokens: 0, usage: emptyUsage() };
+				session.totalTokens += totalTokens;
+				session.usage = addUsage(session.usage, message.usage);
+				sessionUsage.set(window.id, session);
+
+				const key = `${window.id}\0${model}`;
+				const perModel = modelUsage.get(key) ?? {
+					sessionId: window.id,
+					model,
+					totalTokens: 0,
+					tokens: emptyUsage(),
+					firstSeen: message.timestamp,
+					lastSeen: message.timestamp,
+				};
+				perModel.totalTokens += totalTokens;
+				perModel.tokens = addUsage(perModel.tokens, message.usage);
+				perModel.lastSeen = message.timestamp;
+				modelUsage.set(key, perModel);
+			}
+
+			for (const [sessionId, session] of sessionUsage) {
+				await this.db.run(
+					`UPDATE sessions SET
+						total_tokens = COALESCE(total_tokens, 0) + ?,
+						input_tokens = COALESCE(input_tokens, 0) + ?,
+						output_tokens = COALESCE(output_tokens, 0) + ?,
+						cache_creation_tokens = COALESCE(cache_creation_tokens, 0) + ?,
+						cache_read_tokens = COALESCE(cache_read_tokens, 0) + ?
+					WHERE id = ?`,
+					session.totalTokens,
+					session.usage.input,
+					session.usage.output,
+					session.usage.cacheCreation,
+					session.usage.cacheRead,
+					sessionId
+				);
+			}
+
+			for (const usage of modelUsage.values()) {
+				await this.upsertModelUsage(
+					usage.sessionId,
+					null,
+					usage.model,
+					usage.totalTokens,
+					usage.tokens,
+					usage.firstSeen.getTime(),
+					usage.lastSeen.getTime()
+				);
+			}
+
+			await this.db.exec('COMMIT');
+		} catch (error) {
+			await this.db.exec('ROLLBACK');
+			throw error;
+		}
+
+		// Backfilled windows change every count and possibly the active window
+		statsCache.clear();
+		this.markStateChanged();
+
+		return result;
+	}
+
+	/**
+	 * Open a window for transcript activity that no known session covers, keeping `windows` sorted
+	 */
+	private async insertBackfillWindow(
+		windows: SessionWithInstanceCountRow[],
+		index: number,
+		timestamp: number,
+		sessionLengthMs: number,
+		alignment: WindowAlignment
+	): Promise<SessionWithInstanceCountRow> {
+		// Never reach back into the previous window or overlap a later one we already know about
+		const previous = windows[index - 1];
+		const bounds = getWindowBounds(timestamp, sessionLengthMs, alignment, previous?.end_time);
+
+		const next = windows[index];
+		const end = next && next.start_time < bounds.end ? next.start_time : bounds.end;
+
+		const window: SessionWithInstanceCountRow = {
+			id: randomUUID(),
+			start_time: bounds.start,
+			end_time: end,
+			total_tokens: 0,
+			input_tokens: 0,
+			output_tokens: 0,
+			cache_creation_tokens: 0,
+			cache_read_tokens: 0,
+			source: 'backfill',
+			instance_count: 0,
+		};
+		await this.db.run(
+			`INSERT INTO sessions (id, start_time, end_time, total_tokens, source) VALUES (?, ?, ?, 0, 'backfill')`,
+			window.id,
+			window.start_time,
+			window.end_time
+		);
+		windows.splice(index, 0, window);
+
+		return window;
+	}
+
+	async purgeSessionsKeepLatest(keep: number): Promise<number> {
+		// Validate input
+		if (typeof keep !== 'number' || !Number.isInteger(keep)) {
+			throw new ValidationError('Keep count must be an integer');
+		}
+		if (keep < 0) keep = 0;
+		if (keep > 10000) {
+			throw new ValidationError('Keep count too large (max 10000)');
+		}
+
+		// Budget alerts belong to budget periods rather than sessions; those of periods that are over can go.
+		// A budget whose period can't be worked out (e.g. a weeklyLimits typo) just keeps its alerts.
+		const currentPeriods: Array<[BudgetKind, number]> = [];
+		const budgets = await configManager.getBudgets().catch((error) => {
+			logger.debug('Keeping budget alerts, budgets could not be read:', error);
+			return [];
+		});
+		for (const budget of budgets) {
+			try {
+				// No active window means every window alert is from a past one
+				const periodStart = await this.getBudgetPeriodStart(budget.kind);
+				currentPeriods.push([budget.kind, periodStart ?? Number.MAX_SAFE_INTEGER]);
+			} catch (error) {
+				logger.debug(`Keeping ${budget.kind} budget alerts, its period could not be worked out:`, error);
+			}
+		}
+
+		await this.db.exec('BEGIN IMMEDIATE');
+		let purged: number;
+		try {
+			// Delete all sessions except the latest N by start_time
+			const result = await this.db.run(
+				`DELETE FROM sessions WHERE id NOT IN (
+          SELECT id FROM sessions ORDER BY start_time DESC LIMIT ?
+        )`,
+				keep
+			);
+			// sqlite3 run returns { changes }
+			purged = result?.changes ?? 0;
+
+			// Rows without a session (instances that never joined one, untracked limit hits) stay: NULL is never NOT IN
+			for (const table of SESSION_TABLES) {
+				await this.db.run(`DELETE FROM ${table} WHERE session_id NOT IN (SELECT id FROM sessions)`);
+			}
+			for (const [kind, periodStart] of currentPeriods) {
+				await this.db.run(`DELETE FROM budget_alerts WHERE budget = ? AND period_start < ?`, kind, periodStart);
+			}
+			await this.db.exec('COMMIT');
+		} catch (error) {
+			await this.db.exec('ROLLBACK');
+			throw error;
+		}
+
+		this.sessionsChanged();
+		return purged;
+	}
+
+	/**
+	 * Open a window at a given time (e.g. for usage santa-claude didn't see), with the configured length
+	 */
+	async startSessionAt(startTime: Date): Promise<SessionData> {
+		const start = startTime.getTime();
+		if (!Number.isFinite(start)) {
+			throw new ValidationError('Invalid start time');
+		}
+		if (start > Date.now()) {
+			throw new ValidationError("A window can't start in the future");
+		}
+
+		// The time given is where the window starts, so no alignment
+		const { end } = getWindowBounds(start, await configManager.getSessionLengthMs());
+		await this.assertNoOverlap(start, end);
+
+		const id = randomUUID();
+		await this.db.run(
+			`INSERT INTO sessions (id, start_time, end_time, total_tokens, source) VALUES (?, ?, ?, 0, 'manual')`,
+			id,
+			start,
+			end
+		);
+		this.sessionsChanged();
+
+		return { id, startTime: new Date(start), endTime: new Date(end) };
+	}
+
+	/**
+	 * Move a window's start and end, e.g. to end it early or extend it. It may not overlap another window.
+	 */
+	async updateSessionWindow(sessionId: string, startTime: Date, endTime: Date): Promise<SessionData> {
+		assertValidId(sessionId, 'session ID');
+		const start = startTime.getTime();
+		const end = endTime.getTime();
+		if (!Number.isFinite(start) || !Number.isFinite(end)) {
+			throw new ValidationError('Invalid window time');
+		}
+		if (end <= start) {
+			throw new ValidationError('A window must end after it starts');
+		}
+		if (end - start > MAX_MANUAL_WINDOW_MS) {
+			throw new ValidationError('A window can be at most 24 hours long');
+		}
+		await this.assertNoOverlap(start, end, sessionId);
+
+		const result = await this.db.run(
+			`UPDATE sessions SET start_time = ?, end_time = ? WHERE id = ?`,
+			start,
+			end,
+			sessionId
+		);
+		if (!result?.changes) {
+			throw new ValidationError(`Session ${sessionId} not found`);
+		}
+		this.sessionsChanged();
+
+		return { id: sessionId, startTime: new Date(start), endTime: new Date(end) };
+	}
+
+	/**
+	 * Delete one session with everything recorded against it. Instances that shared it go too, as with gc.
+	 */
+	async deleteSession(sessionId: string): Promise<boolean> {
+		assertValidId(sessionId, 'session ID');
+
+		await this.db.exec('BEGIN IMMEDIATE');
+		let deleted: boolean;
+		try {
+			const result = await this.db.run(`DELETE FROM sessions WHERE id = ?`, sessionId);
+			deleted = Boolean(result?.changes);
+			for (const table of SESSION_TABLES) {
+				await this.db.run(`DELETE FROM ${table} WHERE session_id = ?`, sessionId);
+			}
+			await this.db.exec('COMMIT');
+		} catch (error) {
+			await this.db.exec('ROLLBACK');
+			throw error;
+		}
+
+		this.sessionsChanged();
+		return deleted;
+	}
+
+	private async findOverlap(start: number, end: number, exceptId?: string): Promise<SessionRow | undefined> {
+		return this.db.get<SessionRow>(
+			`SELECT * FROM sessions WHERE start_time < ? AND end_time > ? AND id != ? ORDER BY start_time LIMIT 1`,
+			end,
+			start,
+			exceptId ?? ''
+		);
+	}
+
+	private async assertNoOverlap(start: number, end: number, exceptId?: string): Promise<void> {
+		const overlapping = await this.findOverlap(start, end, exceptId);
+		if (overlapping) {
+			throw new ValidationError(
+				`That overlaps session ${overlapping.id.slice(0, 8)} (${formatDate(
+					new Date(overlapping.start_time)
+				)} - ${formatDate(new Date(overlapping.end_time))})`
+			);
+		}
+	}
+
+	/**
+	 * After a manual edit: every cached count and the active window may be out of date
+	 */
+	private sessionsChanged(): void {
+		statsCache.clear();
+		this.markStateChanged();
+	}
+
+	private rowToSessionData(row: SessionRow): SessionData {
+		return {
 			id: row.id,
 			startTime: new Date(row.start_time),
 			endTime: new Date(row.end_time),
 		};
 	}
 
-	async getDetailedAnalytics(): Promise<DetailedAnalytics> {
-		const startOfMonthTimestamp = startOfMonth(new Date()).getTime();
+	/**
+	 * Sessions and tokens per model family for sessions started since the timestamp
+	 */
+	async getModelUsageSince(timestamp: number): Promise<ModelUsageStats[]> {
+		const rows = await this.db.all<ModelUsageRow[]>(
+			`
+      SELECT mu.*
+      FROM model_usage mu
+      JOIN sessions s ON s.id = mu.session_id
+      WHERE s.start_time >= ?
+    `,
+			timestamp
+		);
 
-		// Get most active hour based on session starts
-		const hourCounts = await this.db.all<HourCountRow[]>(
+		// Aggregate aliases and full model IDs ("opus", "claude-opus-4-1") under one family
+		const pricing = await configManager.getPricing();
+		const byFamily = new Map<string, { sessions: Set<string>; totalTokens: number; tokens: TokenUsage; cost: number }>();
+		for (const row of rows) {
+			const family = getModelFamily(row.model);
+			const entry = byFamily.get(family) ?? {
+				sessions: new Set<string>(),
+				totalTokens: 0,
+				tokens: emptyUsage(),
+				cost: 0,
+			};
+			entry.sessions.add(row.session_id);
+			entry.totalTokens += row.total_tokens || 0;
+			entry.tokens = addUsage(entry.tokens, rowToTokenUsage(row));
+			entry.cost += estimateCost(row.model, row.total_tokens || 0, rowToTokenUsage(row), pricing);
+			byFamily.set(family, entry);
+		}
+
+		return Array.from(byFamily.entries())
+			.map(([model, entry]) => ({
+				model,
+				count: entry.sessions.size,
+				totalTokens: entry.totalTokens,
+				tokens: entry.tokens,
+				cost: entry.cost,
+			}))
+			.sort((a, b) => b.totalTokens - a.totalTokens || b.count - a.count);
+	}
+
+	/**
+	 * Hours and tokens used per capped model family since the last weekly reset.
+	 * Hours are the active spans of model usage, with overlapping instances counted once; usage that
+	 * straddles the reset only counts its part after it.
+	 */
+	async getWeeklyUsage(limits: WeeklyLimits, now: Date = new Date()): Promise<WeeklyUsage> {
+		const weekStart = getWeekStart(limits, now);
+		const cacheKey = `weekly_usage_${weekStart.getTime()}`;
+
+		let byFamily = statsCache.get(cacheKey) as Map<string, { hours: number; tokens: number }> | undefined;
+		if (!byFamily) {
+			const since = weekStart.getTime();
+			const sampled = (condition: string) => `(
+				SELECT SUM(ts.total_tokens) FROM token_samples ts
+				WHERE ts.session_id = mu.session_id AND ts.instance_id = mu.instance_id AND ts.model = mu.model ${condition}
+			)`;
+			const rows = await this.db.all<WeeklyModelUsageRow[]>(
+				`SELECT mu.*,
+					CASE WHEN mu.first_seen < ? THEN ${sampled('')} END as sampled_tokens,
+					CASE WHEN mu.first_seen < ? THEN ${sampled('AND ts.timestamp >= ?')} END as sampled_tokens_since
+				FROM model_usage mu
+				WHERE mu.last_seen >= ?
+				ORDER BY mu.first_seen ASC`,
+				since,
+				since,
+				since,
+				since
+			);
+
+			const spans = new Map<string, Array<[number, number]>>();
+			const tokens = new Map<string, number>();
+			for (const row of rows) {
+				const span: [number, number] = [Math.max(row.first_seen, since), row.last_seen];
+				const rowTokens = getRowTokensSince(row, since);
+				for (const family of [getModelFamily(row.model), ALL_MODELS]) {
+					spans.set(family, [...(spans.get(family) ?? []), span]);
+					tokens.set(family, (tokens.get(family) ?? 0) + rowTokens);
+				}
+			}
+
+			byFamily = new Map();
+			for (const [family, familySpans] of spans) {
+				byFamily.set(family, { hours: mergedDurationMs(familySpans) / 3600000, tokens: tokens.get(family) ?? 0 });
+			}
+
+			// Cache for 30 seconds (read on every status refresh)
+			statsCache.set(cacheKey, byFamily, 30000);
+		}
+
+		return {
+			weekStart,
+			resetsAt: addDays(weekStart, 7),
+			caps: Object.entries(limits.caps).map(([family, cap]) => {
+				const used = byFamily.get(family) ?? { hours: 0, tokens: 0 };
+				return {
+					family,
+					cap,
+					hoursUsed: used.hours,
+					tokensUsed: used.tokens,
+					fractionUsed: getCapFraction(cap, used.hours, used.tokens),
+				};
+			}),
+		};
+	}
+
+	/**
+	 * How much of each budget is used in its current window, week or billing cycle
+	 */
+	async getBudgetStatuses(budgets: Budget[]): Promise<BudgetStatus[]> {
+		const statuses: BudgetStatus[] = [];
+		for (const budget of budgets) {
+			const { used, periodStart } = await this.getBudgetUsage(budget.kind);
+			statuses.push({ ...budget, used, fraction: used / budget.limit, periodStart });
+		}
+		return statuses;
+	}
+
+	private async getBudgetUsage(kind: BudgetKind): Promise<{ used: number; periodStart: number | null }> {
+		if (kind === 'windowTokens') {
+			const session = await this.getActiveSession();
+			if (!session) {
+				return { used: 0, periodStart: null };
+			}
+			const row = await this.db.get<SessionRow>(`SELECT * FROM sessions WHERE id = ?`, session.id);
+			return { used: row?.total_tokens || 0, periodStart: session.startTime.getTime() };
+		}
+
+		const periodStart = (await this.getBudgetPeriodStart(kind)) as number;
+		switch (kind) {
+			case 'weeklyTokens':
+			case 'cycleTokens':
+				return { used: await this.getTokensSince(periodStart), periodStart };
+			case 'cycleSessions': {
+				const row = await this.db.get<CountRow>(
+					`SELECT COUNT(*) as count FROM sessions WHERE start_time >= ?`,
+					periodStart
+				);
+				return { used: row?.count || 0, periodStart };
+			}
+		}
+	}
+
+	/**
+	 * Start of the window, week or billing cycle a budget is measured over (null when no window is active)
+	 */
+	async getBudgetPeriodStart(kind: BudgetKind): Promise<number | null> {
+		switch (kind) {
+			case 'windowTokens': {
+				const session = await this.getActiveSession();
+				return session ? session.startTime.getTime() : null;
+			}
+			case 'weeklyTokens': {
+				// Follow the weekly cap reset when one is configured, otherwise the calendar week
+				const limits = await configManager.getWeeklyLimits();
+				const weekStart = limits ? getWeekStart(limits) : startOfWeek(new Date(), { weekStartsOn: 0 });
+				return weekStart.getTime();
+			}
+			case 'cycleTokens':
+			case 'cycleSessions':
+				return this.getCurrentPeriodStart();
+		}
+	}
+
+	private async getTokensSince(timestamp: number): Promise<number> {
+		const row = await this.db.get<CountRow>(
+			`SELECT COALESCE(SUM(total_tokens), 0) as count FROM sessions WHERE start_time >= ?`,
+			timestamp
+		);
+		return row?.count || 0;
+	}
+
+	/**
+	 * Record thresholds newly reached by these budgets. Each threshold is claimed once per period across
+	 * all santa-claude processes, so only the caller that gets it back should alert.
+	 */
+	async claimBudgetAlerts(statuses: BudgetStatus[]): Promise<BudgetAlert[]> {
+		const alerts: BudgetAlert[] = [];
+		for (const status of statuses) {
+			if (status.periodStart === null) continue;
+
+			for (const threshold of getCrossedThresholds(status)) {
+				const claimed = await this.db.run(
+					`INSERT OR IGNORE INTO budget_alerts (budget, period_start, threshold, used, budget_limit, crossed_at)
+					VALUES (?, ?, ?, ?, ?, ?)`,
+					status.kind,
+					status.periodStart,
+					threshold,
+					status.used,
+					status.limit,
+					Date.now()
+				);
+				if (claimed?.changes) {
+					alerts.push({ status, threshold });
+				}
+			}
+		}
+		return alerts;
+	}
+
+	/**
+	 * Record that a window hook fired. Only the caller that gets true back should run it.
+	 */
+	async claimHook(event: HookEvent, sessionId: string, minutes: number = 0): Promise<boolean> {
+		assertValidId(sessionId, 'session ID');
+
+		const claimed = await this.db.run(
+			`INSERT OR IGNORE INTO fired_hooks (event, session_id, minutes, fired_at) VALUES (?, ?, ?, ?)`,
+			event,
+			sessionId,
+			minutes,
+			Date.now()
+		);
+		return Boolean(claimed?.changes);
+	}
+
+	async enqueueWebhookDeliveries(deliveries: Array<{ url: string; event: string; body: string }>): Promise<void> {
+		const now = Date.now();
+		for (const delivery of deliveries) {
+			await this.db.run(
+				`INSERT INTO webhook_deliveries (id, url, event, body, next_attempt_at, created_at)
+				VALUES (?, ?, ?, ?, ?, ?)`,
+				randomUUID(),
+				delivery.url,
+				delivery.event,
+				delivery.body,
+				now,
+				now
+			);
+		}
+	}
+
+	/**
+	 * Queued deliveries whose next attempt is due, oldest first
+	 */
+	async getDueWebhookDeliveries(now: number, limit: number): Promise<WebhookDelivery[]> {
+		const rows = await this.db.all<WebhookDeliveryRow[]>(
+			`SELECT * FROM webhook_deliveries WHERE next_attempt_at <= ? ORDER BY created_at LIMIT ?`,
+			now,
+			limit
+		);
+		return rows.map((row) => ({
+			id: row.id,
+			url: row.url,
+			event: row.event,
+			body: row.body,
+			attempts: row.attempts,
+			nextAttemptAt: new Date(row.next_attempt_at),
+			lastError: row.last_error,
+			createdAt: new Date(row.created_at),
+		}));
+	}
+
+	/**
+	 * Take a due delivery until `until` so concurrent processes don't send it twice. False if it is no longer due.
+	 */
+	async leaseWebhookDelivery(id: string, now: number, until: number): Promise<boolean> {
+		const leased = await this.db.run(
+			`UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ? AND next_attempt_at <= ?`,
+			until,
+			id,
+			now
+		);
+		return Boolean(leased?.changes);
+	}
+
+	async rescheduleWebhookDelivery(id: string, attempts: number, nextAttemptAt: number, error: string): Promise<void> {
+		await this.db.run(
+			`UPDATE webhook_deliveries SET attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?`,
+			attempts,
+			nextAttemptAt,
+			error,
+			id
+		);
+	}
+
+	async deleteWebhookDelivery(id: string): Promise<void> {
+		await this.db.run(`DELETE FROM webhook_deliveries WHERE id = ?`, id);
+	}
+
+	/**
+	 * Record a usage limit notice against the active window, with the tokens it had used by then.
+	 * Each window's limit is recorded once across processes; null means it already was.
+	 */
+	async recordLimitHit(notice: LimitNotice, instanceId?: string): Promise<LimitHit | null> {
+		if (instanceId) assertValidId(instanceId, 'instance ID');
+
+		const now = Date.now();
+		const session = await this.db.get<SessionRow>(
+			`SELECT * FROM sessions WHERE start_time <= ? AND end_time > ? ORDER BY start_time DESC LIMIT 1`,
+			now,
+			now
+		);
+		const hit: LimitHit = {
+			sessionId: session?.id ?? null,
+			instanceId: instanceId ?? null,
+			kind: notice.kind,
+			hitAt: new Date(now),
+			windowTokens: session?.total_tokens ?? 0,
+			message: notice.message,
+		};
+
+		// Without a window to key on, a notice within a window length of the last untracked one is the same hit
+		const untrackedSince = session ? now : now - (await configManager.getSessionLengthMs());
+		const recorded = await this.db.run(
+			`INSERT OR IGNORE INTO limit_hits (session_id, instance_id, kind, hit_at, window_tokens, message)
+			SELECT ?, ?, ?, ?, ?, ?
+			WHERE NOT EXISTS (SELECT 1 FROM limit_hits WHERE session_id IS NULL AND kind = ? AND hit_at > ?)`,
+			hit.sessionId,
+			hit.instanceId,
+			hit.kind,
+			now,
+			hit.windowTokens,
+			hit.message,
+			hit.kind,
+			untrackedSince
+		);
+		return recorded?.changes ? hit : null;
+	}
+
+	/**
+	 * Move the active window's end to when Claude says the limit resets. Null when there is no active window,
+	 * its end already matches, or the reset can't end it: one already past, or outside a window length from
+	 * the window's start, comes from another window's notice.
+	 */
+	async correctActiveSessionEnd(resetsAt: Date): Promise<{ session: SessionData; previousEnd: Date } | null> {
+		const now = Date.now();
+		const reset = resetsAt.getTime();
+		const session = await this.getActiveSession();
+		if (!session || !Number.isFinite(reset) || reset <= now) {
+			return null;
+		}
+		const start = session.startTime.getTime();
+		if (reset <= start || reset - start > (await configManager.getSessionLengthMs())) {
+			return null;
+		}
+		if (Math.abs(reset - session.endTime.getTime()) < MIN_RESET_CORRECTION_MS) {
+			return null;
+		}
+
+		const corrected = await this.updateSessionWindow(session.id, session.startTime, resetsAt);
+		return { session: corrected, previousEnd: session.endTime };
+	}
+
+	/**
+	 * Limit hits recorded against these sessions, keyed by session ID (window limits before weekly ones)
+	 */
+	async getLimitHits(sessionIds: string[]): Promise<Map<string, LimitHit[]>> {
+		const hits = new Map<string, LimitHit[]>();
+		const rows = await this.allForIds<LimitHitRow>(
+			sessionIds,
+			(placeholders) => `SELECT * FROM limit_hits WHERE session_id IN (${placeholders}) ORDER BY kind DESC, hit_at ASC`
+		);
+		for (const row of rows) {
+			const sessionHits = hits.get(row.session_id as string) ?? [];
+			sessionHits.push(this.rowToLimitHit(row));
+			hits.set(row.session_id as string, sessionHits);
+		}
+		return hits;
+	}
+
+	/**
+	 * How often limits were hit between two times, and how far into their windows
+	 */
+	async getLimitHitStats(from: Date, to: Date): Promise<LimitHitStats> {
+		const rows = await this.db.all<LimitHitStatsRow[]>(
+			`SELECT
+				kind,
+				COUNT(*) as hits,
+				COUNT(session_id) as tracked_hits,
+				AVG(CASE WHEN session_id IS NOT NULL THEN window_tokens END) as average_tokens,
+				MIN(CASE WHEN session_id IS NOT NULL THEN window_tokens END) as min_tokens,
+				MAX(CASE WHEN session_id IS NOT NULL THEN window_tokens END) as max_tokens
+			FROM limit_hits
+			WHERE hit_at >= ? AND hit_at < ?
+			GROUP BY kind`,
+			from.getTime(),
+			to.getTime()
+		);
+
+		const window = rows.find((row) => row.kind === 'window');
+		const weekly = rows.find((row) => row.kind === 'weekly');
+		return {
+			windowHits: window?.hits ?? 0,
+			weeklyHits: weekly?.hits ?? 0,
+			averageTokens: window && window.average_tokens !== null ? Math.round(window.average_tokens) : null,
+			minTokens: window?.min_tokens ?? null,
+			maxTokens: window?.max_tokens ?? null,
+		};
+	}
+
+	/**
+	 * The window that ended most recently, if any
+	 */
+	async getLastEndedSession(): Promise<SessionData | null> {
+		const row = await this.db.get<SessionRow>(
+			`SELECT * FROM sessions WHERE end_time <= ? ORDER BY end_time DESC LIMIT 1`,
+			Date.now()
+		);
+		return row ? this.rowToSessionData(row) : null;
+	}
+
+	async updateInstanceBurnRate(instanceId: string, tokensPerMinute: number): Promise<void> {
+		assertValidId(instanceId, 'instance ID');
+
+		await this.db.run(
+			`UPDATE instances SET burn_rate = ?, burn_rate_updated_at = ? WHERE id = ?`,
+			tokensPerMinute,
+			Date.now(),
+			instanceId
+		);
+		this.markStateChanged();
+	}
+
+	/**
+	 * Combined tokens-per-minute of the running instances in a session
+	 */
+	async getBurnRate(sessionId: string): Promise<number> {
+		assertValidId(sessionId, 'session ID');
+
+		const row = await this.db.get<BurnRateRow>(
+			`SELECT COALESCE(SUM(burn_rate), 0) as rate FROM instances
+			WHERE session_id = ? AND end_time IS NULL AND burn_rate_updated_at >= ?`,
+			sessionId,
+			Date.now() - BURN_RATE_STALE_MS
+		);
+		return row?.rate || 0;
+	}
+
+	/**
+	 * Largest total any finished window reached - a floor for the real allowance, or null with no history
+	 */
+	async getLearnedWindowAllowance(): Promise<number | null> {
+		const row = await this.db.get<CountRow>(
+			`SELECT COALESCE(MAX(total_tokens), 0) as count FROM sessions WHERE end_time <= ?`,
+			Date.now()
+		);
+		return row?.count ? row.count : null;
+	}
+
+	/**
+	 * Whether the active window's allowance runs out before it resets at the current burn rate,
+	 * or null when no window is active
+	 */
+	async getBurnProjection(): Promise<BurnProjection | null> {
+		const session = await this.getActiveSession();
+		if (!session) {
+			return null;
+		}
+
+		const row = await this.db.get<SessionRow>(`SELECT * FROM sessions WHERE id = ?`, session.id);
+		const used = row?.total_tokens || 0;
+		const configured = await configManager.getWindowTokenLimit();
+		let learned = configured === undefined ? await this.getLearnedWindowAllowance() : null;
+		// A window past every earlier one says nothing about where the real limit is
+		if (learned !== null && used >= learned) {
+			learned = null;
+		}
+
+		return projectExhaustion({
+			used,
+			tokensPerMinute: await this.getBurnRate(session.id),
+			allowance: configured ?? learned,
+			allowanceSource: configured !== undefined ? 'configured' : learned !== null ? 'learned' : null,
+			endTime: session.endTime.getTime(),
+		});
+	}
+
+	/**
+	 * The active window, session counts and burn outlook in one small, serializable object
+	 */
+	async getStatusSnapshot(): Promise<StatusSnapshot> {
+		const session = await this.getActiveSession();
+		const row = session ? await this.db.get<SessionRow>(`SELECT * FROM sessions WHERE id = ?`, session.id) : undefined;
+		const projection = await this.getBurnProjection();
+
+		const renewalDay = await configManager.getSubscriptionRenewalDay();
+		const cycleSessions = renewalDay
+			? await this.getBillingCycleSessionCount(renewalDay)
+			: await this.getMonthlySessionCount();
+		return {
+			activeSession: session
+				? {
+						id: session.id,
+						startTime: session.startTime.getTime(),
+						endTime: session.endTime.getTime(),
+						totalTokens: row?.total_tokens || 0,
+					}
+				: null,
+			cycleSessions,
+			weeklySessions: await this.getWeeklySessionCount(),
+			tokensPerMinute: projection?.tokensPerMinute ?? 0,
+			minutesToLimit: projection?.limitBeforeReset ? projection.minutesToLimit : null,
+			updatedAt: Date.now(),
+		};
+	}
+
+	/**
+	 * Sessions joined and tokens contributed per project, for instances started since the timestamp.
+	 * A session shared by several projects counts once for each of them.
+	 */
+	async getProjectUsageSince(timestamp: number): Promise<ProjectUsageStats[]> {
+		const rows = await this.db.all<ProjectUsageRow[]>(
 			`
-      SELECT strftime('%H', datetime(start_time/1000, 'unixepoch', 'localtime')) as hour,
-             COUNT(*) as count
-      FROM sessions
-      WHERE start_time >= ?
-      GROUP BY hour
-      ORDER BY count DESC
-      LIMIT 1
+      SELECT
+        COALESCE(project, cwd, 'unknown') as project,
+        COUNT(DISTINCT session_id) as sessions,
+        COUNT(*) as instances,
+        COALESCE(SUM(total_tokens), 0) as total_tokens,
+        COALESCE(SUM(input_tokens), 0) as input_tokens,
+        COALESCE(SUM(output_tokens), 0) as output_tokens,
+        COALESCE(SUM(cache_creation_tokens), 0) as cache_creation_tokens,
+        COALESCE(SUM(cache_read_tokens), 0) as cache_read_tokens
+      FROM instances
+      WHERE start_time >= ? AND session_id IS NOT NULL
+      GROUP BY COALESCE(project, cwd, 'unknown')
+      ORDER BY total_tokens DESC
     `,
-			startOfMonthTimestamp
+			timestamp
 		);
 
-		const mostActiveHour = hourCounts.length > 0 ? parseInt(hourCounts[0].hour) : 0;
+		return rows.map((row) => ({
+			project: row.project,
+			sessionCount: row.sessions,
+			instanceCount: row.instances,
+			totalTokens: row.total_tokens || 0,
+			tokens: rowToTokenUsage(row),
+		}));
+	}
+
+	/**
+	 * Start of the current billing cycle, or of the calendar month when no renewal day is set
+	 */
+	async getCurrentPeriodStart(): Promise<number> {
+		const renewalDay = await configManager.getSubscriptionRenewalDay();
+		return renewalDay ? getBillingCycleStart(renewalDay).getTime() : startOfMonth(new Date()).getTime();
+	}
+
+	private rowToSessionWithStats(row: SessionWithInstanceCountRow, cost: number): SessionWithStats {
+		return {
+			...this.rowToSessionData(row),
+			totalTokens: row.total_tokens || 0,
+			tokens: rowToTokenUsage(row),
+			cost,
+			instanceCount: row.instance_count || 0,
+		};
+	}
+
+	private rowToLimitHit(row: LimitHitRow): LimitHit {
+		return {
+			sessionId: row.session_id,
+			instanceId: row.instance_id,
+			kind: row.kind as LimitKind,
+			hitAt: new Date(row.hit_at),
+			windowTokens: row.window_tokens,
+			message: row.message,
+		};
+	}
+
+	private rowToInstanceData(row: InstanceRow): InstanceData {
+		let args: string[] = [];
+		try {
+			args = JSON.parse(row.args);
+		} catch (_error) {
+			// Leave args empty if the stored value is malformed
+		}
+
+		return {
+			id: row.id,
+			sessionId: row.session_id,
+			pid: row.pid,
+			cwd: row.cwd,
+			project: row.project ?? row.cwd,
+			args,
+			startTime: new Date(row.start_time),
+			endTime: row.end_time !== null ? new Date(row.end_time) : null,
+			exitCode: row.exit_code,
+			totalTokens: row.total_tokens || 0,
+			tokens: rowToTokenUsage(row),
+			model: normalizeModel(row.model),
+		};
+	}
 
-		// Get most active day of week
-		const dayOfWeekCounts = await this.db.all<DayOfWeekCountRow[]>(
+	async getDetailedAnalytics(): Promise<DetailedAnalytics> {
+		const now = new Date();
+
+		// When sessions start, by local weekday and hour
+		const activityMatrix = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+		const counts = await this.db.all<HourDayCountRow[]>(
 			`
       SELECT strftime('%w', datetime(start_time/1000, 'unixepoch', 'localtime')) as dow,
+             strftime('%H', datetime(start_time/1000, 'unixepoch', 'localtime')) as hour,
              COUNT(*) as count
       FROM sessions
       WHERE start_time >= ?
-      GROUP BY dow
-      ORDER BY count DESC
-      LIMIT 1
+      GROUP BY dow, hour
     `,
-			startOfMonthTimestamp
+			subDays(now, ACTIVITY_WEEKS * 7).getTime()
 		);
+		for (const row of counts) {
+			activityMatrix[parseInt(row.dow)][parseInt(row.hour)] = row.count;
+		}
+
+		const hourTotals = activityMatrix[0].map((_, hour) => activityMatrix.reduce((sum, day) => sum + day[hour], 0));
+		const dayTotals = activityMatrix.map((day) => day.reduce((sum, count) => sum + count, 0));
+		const busiest = (totals: number[]) => totals.indexOf(Math.max(...totals));
 
 		const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-		const mostActiveDay = dayOfWeekCounts.length > 0 ? daysOfWeek[parseInt(dayOfWeekCounts[0].dow)] : '';
+		const hasActivity = counts.length > 0;
+		const mostActiveHour = hasActivity ? busiest(hourTotals) : 0;
+		const mostActiveDay = hasActivity ? daysOfWeek[busiest(dayTotals)] : '';
 
-		// Model usage no longer tracked
-		const modelUsage: Array<{ model: string; count: number }> = [];
+		const modelUsage = await this.getModelUsageSince(await this.getCurrentPeriodStart());
 
-		// Get daily usage for last 7 days with total tokens
-		const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
-		const dailyUsage = await this.db.all<DailyUsageRow[]>(
-			`
-      SELECT 
-        date(start_time/1000, 'unixepoch', 'localtime') as date,
-        COUNT(*) as sessions,
-        COALESCE(SUM(total_tokens), 0) as total_tokens
-      FROM sessions
-      WHERE start_time >= ?
-      GROUP BY date
-      ORDER BY date DESC
-    `,
-			sevenDaysAgo
-		);
+		const recent = await this.getUsageStats({
+			from: startOfDay(subDays(now, DAILY_USAGE_DAYS - 1)),
+			to: now,
+			groupBy: 'day',
+		});
+		const dailyUsage = recent.groups.map((group) => ({
+			date: format(group.start, 'yyyy-MM-dd'),
+			sessions: group.sessionCount,
+			totalTokens: group.totalTokens.total,
+		}));
 
 		return {
 			mostActiveHour,
 			mostActiveDay,
+			activityMatrix,
 			modelUsage,
-			dailyUsage: dailyUsage.map((d) => ({
-				date: d.date,
-				sessions: d.sessions,
-				totalTokens: d.total_tokens,
-			})),
+			dailyUsage,
 		};
 	}
 
 	async close() {
+		// Flush a throttled state.json write before the database goes away
+		if (this.stateTimer) {
+			await this.writeStateFile();
+		}
+		await this.stateWrite;
+
 		// Clear cache on close
 		statsCache.clear();
 		
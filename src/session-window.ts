@@ -0,0 +1,77 @@
+import { startOfDay, startOfHour } from 'date-fns';
+import { ValidationError } from './errors.js';
+
+// Windows end a minute early so we never count usage past Claude's real reset
+const WINDOW_SAFETY_MARGIN_MS = 60000;
+
+export type WindowAlignmentStrategy = 'exact-start' | 'floor-to-hour' | 'floor-to-minutes';
+
+export const WINDOW_ALIGNMENT_STRATEGIES: WindowAlignmentStrategy[] = ['exact-start', 'floor-to-hour', 'floor-to-minutes'];
+
+export interface WindowAlignment {
+	strategy: WindowAlignmentStrategy;
+	// Step for floor-to-minutes, counted from local midnight
+	minutes?: number;
+}
+
+export const DEFAULT_WINDOW_ALIGNMENT: WindowAlignment = { strategy: 'exact-start' };
+
+export interface WindowBounds {
+	start: number;
+	end: number;
+}
+
+export function parseWindowAlignment(strategy: string, minutes?: number): WindowAlignment {
+	const normalized = strategy.trim().toLowerCase() as WindowAlignmentStrategy;
+	if (!WINDOW_ALIGNMENT_STRATEGIES.includes(normalized)) {
+		throw new ValidationError(
+			`Unknown window alignment "${strategy}" (expected ${WINDOW_ALIGNMENT_STRATEGIES.join(', ')})`
+		);
+	}
+
+	if (normalized !== 'floor-to-minutes') {
+		return { strategy: normalized };
+	}
+	if (minutes === undefined || !Number.isInteger(minutes) || minutes < 1 || minutes > 1440) {
+		throw new ValidationError('floor-to-minutes needs a whole number of minutes between 1 and 1440');
+	}
+	return { strategy: normalized, minutes };
+}
+
+/**
+ * Where a window opened by activity at `timestamp` (epoch ms) starts under the alignment strategy
+ */
+export function alignWindowStart(timestamp: number, alignment: WindowAlignment): number {
+	switch (alignment.strategy) {
+		case 'exact-start':
+			return timestamp;
+		case 'floor-to-hour':
+			return startOfHour(timestamp).getTime();
+		case 'floor-to-minutes': {
+			const stepMs = (alignment.minutes ?? 60) * 60 * 1000;
+			const midnight = startOfDay(timestamp).getTime();
+			return midnight + Math.floor((timestamp - midnight) / stepMs) * stepMs;
+		}
+	}
+}
+
+/**
+ * Compute the usage window opened by activity at `timestamp` (epoch ms).
+ * `notBefore` keeps an aligned start from reaching back into the previous window.
+ */
+export function getWindowBounds(
+	timestamp: number,
+	sessionLengthMs: number,
+	alignment: WindowAlignment = DEFAULT_WINDOW_ALIGNMENT,
+	notBefore?: number
+): WindowBounds {
+	const alignedStart = alignWindowStart(timestamp, alignment);
+	return {
+		start: notBefore !== undefined ? Math.max(alignedStart, notBefore) : alignedStart,
+		end: alignedStart + sessionLengthMs - WINDOW_SAFETY_MARGIN_MS,
+	};
+}
+
+export function formatWindowAlignment(alignment: WindowAlignment): string {
+	return alignment.strategy === 'floor-to-minutes' ? `floor-to-minutes (${alignment.minutes})` : alignment.strategy;
+}
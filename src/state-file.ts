@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { StatusSnapshot } from './status.js';
+
+export const STATE_FILE_NAME = 'state.json';
+
+// Counts and burn rates drift with time alone, so even an untouched file gets re-read from the database now and then
+const STATE_MAX_AGE_MS = 15 * 60 * 1000;
+// Writers update the state file shortly after the database; a newer database beyond this means one didn't
+const STATE_DB_SLACK_MS = 5000;
+
+/**
+ * Replace the state file in one step (write a temp file, then rename) so readers never see half a file
+ */
+export async function writeStateFile(filePath: string, snapshot: StatusSnapshot): Promise<void> {
+	const tempPath = `${filePath}.${process.pid}.tmp`;
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	try {
+		await fs.writeFile(tempPath, JSON.stringify(snapshot) + '\n');
+		await fs.rename(tempPath, filePath);
+	} catch (error) {
+		await fs.rm(tempPath, { force: true });
+		throw error;
+	}
+}
+
+function isSnapshot(value: unknown): value is StatusSnapshot {
+	if (!value || typeof value !== 'object') return false;
+	const snapshot = value as Record<string, unknown>;
+	const active = snapshot.activeSession as Record<string, unknown> | null | undefined;
+	return (
+		typeof snapshot.updatedAt === 'number' &&
+		typeof snapshot.cycleSessions === 'number' &&
+		typeof snapshot.weeklySessions === 'number' &&
+		typeof snapshot.tokensPerMinute === 'number' &&
+		(snapshot.minutesToLimit === null || typeof snapshot.minutesToLimit === 'number') &&
+		(active === null ||
+			(typeof active === 'object' &&
+				typeof active.id === 'string' &&
+				typeof active.startTime === 'number' &&
+				typeof active.endTime === 'number' &&
+				typeof active.totalTokens === 'number'))
+	);
+}
+
+/**
+ * The last snapshot written, or null when the file is missing or unreadable
+ */
+export async function readStateFile(filePath: string): Promise<StatusSnapshot | null> {
+	try {
+		const parsed: unknown = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+		return isSnapshot(parsed) ? parsed : null;
+	} catch (_error) {
+		return null;
+	}
+}
+
+/**
+ * Whether a snapshot can be shown as is: recent enough, and not older than the last database write
+ * (e.g. one made by a process that doesn't keep the state file up to date)
+ */
+export async function isStateFresh(
+	snapshot: StatusSnapshot,
+	dbPath: string,
+	now: number = Date.now()
+): Promise<boolean> {
+	if (now - snapshot.updatedAt > STATE_MAX_AGE_MS) {
+		return false;
+	}
+	try {
+		const { mtimeMs } = await fs.stat(dbPath);
+		return mtimeMs <= snapshot.updatedAt + STATE_DB_SLACK_MS;
+	} catch (_error) {
+		// No database yet, so nothing newer to show
+		return true;
+	}
+}
@@ -0,0 +1,128 @@
+import path from 'path';
+import { format } from 'date-fns';
+import { ValidationError } from './errors.js';
+import { formatDuration } from './burn-rate.js';
+import { formatTokenCount } from './utils.js';
+
+/**
+ * Everything a one-line status needs, in plain JSON-friendly values (timestamps are epoch ms)
+ */
+export interface StatusSnapshot {
+	activeSession: {
+		id: string;
+		startTime: number;
+		endTime: number;
+		totalTokens: number;
+	} | null;
+	// Sessions in the current billing cycle (calendar month when no renewal day is set)
+	cycleSessions: number;
+	weeklySessions: number;
+	tokensPerMinute: number;
+	// Set only when the allowance runs out before the window resets
+	minutesToLimit: number | null;
+	updatedAt: number;
+}
+
+// Details only the caller knows, e.g. from Claude Code's statusline input
+export interface StatusContext {
+	model?: string;
+	dir?: string;
+}
+
+export const STATUS_PLACEHOLDERS = [
+	'remaining',
+	'ends',
+	'tokens',
+	'cycle',
+	'week',
+	'burn',
+	'limit',
+	'model',
+	'dir',
+] as const;
+
+export type StatusPlaceholder = (typeof STATUS_PLACEHOLDERS)[number];
+
+export const DEFAULT_STATUS_FORMAT = '🎅 {remaining} left · {tokens} tokens · {cycle} sessions this cycle';
+export const DEFAULT_IDLE_STATUS_FORMAT = '🎅 No active window · {cycle} sessions this cycle';
+// Prompts have little room and nothing to say between windows
+export const DEFAULT_PROMPT_FORMAT = '🎅 {remaining}';
+export const DEFAULT_IDLE_PROMPT_FORMAT = '';
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Check a status format only uses known placeholders
+ */
+export function parseStatusFormat(value: string): string {
+	for (const [, name] of value.matchAll(PLACEHOLDER_PATTERN)) {
+		if (!STATUS_PLACEHOLDERS.includes(name as StatusPlaceholder)) {
+			const expected = STATUS_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(', ');
+			throw new ValidationError(`Unknown placeholder {${name}} (expected ${expected})`);
+		}
+	}
+	return value;
+}
+
+function getPlaceholderValues(
+	snapshot: StatusSnapshot,
+	context: StatusContext,
+	now: number
+): Record<StatusPlaceholder, string> {
+	const active = snapshot.activeSession;
+	return {
+		remaining: active ? formatDuration(Math.max(0, active.endTime - now) / 60000) : '',
+		ends: active ? format(active.endTime, 'h:mmaaa') : '',
+		tokens: active ? formatTokenCount(active.totalTokens) : '',
+		cycle: snapshot.cycleSessions.toString(),
+		week: snapshot.weeklySessions.toString(),
+		burn: snapshot.tokensPerMinute > 0 ? `${formatTokenCount(Math.round(snapshot.tokensPerMinute))}/min` : '',
+		limit: snapshot.minutesToLimit !== null ? `~${formatDuration(snapshot.minutesToLimit)} to limit` : '',
+		model: context.model ?? '',
+		dir: context.dir ? path.basename(context.dir) : '',
+	};
+}
+
+/**
+ * Fill in a format's placeholders. The idle format is used when no window is active (or it has ended).
+ */
+export function formatStatus(
+	snapshot: StatusSnapshot,
+	formats: { format: string; idleFormat: string },
+	context: StatusContext = {},
+	now: number = Date.now()
+): string {
+	const active = snapshot.activeSession !== null && snapshot.activeSession.endTime > now;
+	const template = active ? formats.format : formats.idleFormat;
+	const values = getPlaceholderValues(active ? snapshot : { ...snapshot, activeSession: null }, context, now);
+	return template.replace(PLACEHOLDER_PATTERN, (_match, name: StatusPlaceholder) => values[name] ?? '');
+}
+
+interface StatuslineInput {
+	cwd?: string;
+	model?: { id?: string; display_name?: string };
+	workspace?: { current_dir?: string };
+}
+
+/**
+ * Pick what we use out of the JSON Claude Code pipes to statusline commands. Anything unexpected is ignored
+ * so a format change on Claude's side degrades to fewer placeholders rather than no status line.
+ */
+export function parseStatuslineInput(raw: string): StatusContext {
+	let input: StatuslineInput;
+	try {
+		input = JSON.parse(raw) as StatuslineInput;
+	} catch (_error) {
+		return {};
+	}
+	if (!input || typeof input !== 'object') {
+		return {};
+	}
+
+	const model = input.model?.display_name ?? input.model?.id;
+	const dir = input.workspace?.current_dir ?? input.cwd;
+	return {
+		model: typeof model === 'string' ? model : undefined,
+		dir: typeof dir === 'string' ? dir : undefined,
+	};
+}
@@ -1,15 +1,23 @@
 import { SessionTracker } from './session-tracker.js';
 import chalk from 'chalk';
+import configManager from './config.js';
+import { formatBudgetAlertShort, type BudgetAlert } from './budgets.js';
+import { formatDuration } from './burn-rate.js';
+import logger from './logger.js';
 
 export class TokenLineProcessor {
 	private tracker: SessionTracker;
 	private lastTimeInfo: string = '';
+	// The latest budget crossing, shown until its window, week or cycle is over
+	private budgetAlert: BudgetAlert | null = null;
 	private lastUpdateTime: number = 0;
 	private currentTokens: number = 0;
 	private lastProcessedTokens: number = 0;
 	private isProcessingUpdate: boolean = false;
 	private updateInterval: NodeJS.Timeout | null = null;
 	private closed: boolean = false;
+	// Status segments that failed (e.g. invalid weeklyLimits in config.json), so each is logged once
+	private failedSegments = new Set<string>();
 
 	constructor(tracker: SessionTracker) {
 		this.tracker = tracker;
@@ -30,11 +38,15 @@ export class TokenLineProcessor {
 		try {
 			const timeRemaining = await this.tracker.getSessionTimeRemaining();
 
+			const weeklyInfo = await this.getOptionalSegment('weekly', () => this.getWeeklyInfo());
+			const budgetInfo = await this.getOptionalSegment('budget', () => this.getBudgetInfo());
+
 			if (timeRemaining) {
 				const timeStr = `${timeRemaining.hours}:${timeRemaining.minutes.toString().padStart(2, '0')} remaining`;
-				this.lastTimeInfo = `🎅 ${timeStr}`;
+				const burnInfo = await this.getOptionalSegment('burn rate', () => this.getBurnInfo());
+				this.lastTimeInfo = `🎅 ${timeStr}${burnInfo}${weeklyInfo}${budgetInfo}`;
 			} else {
-				this.lastTimeInfo = `🎅 No active session`;
+				this.lastTimeInfo = `🎅 No active session${weeklyInfo}${budgetInfo}`;
 			}
 		} catch (_error) {
 			// Don't update timeInfo if there's an error - keep the last known state
@@ -42,6 +54,77 @@ export class TokenLineProcessor {
 		}
 	}
 
+	/**
+	 * An extra status segment, or nothing when it fails, so the countdown keeps updating without it
+	 */
+	private async getOptionalSegment(name: string, getSegment: () => Promise<string>): Promise<string> {
+		try {
+			const segment = await getSegment();
+			this.failedSegments.delete(name);
+			return segment;
+		} catch (error) {
+			if (!this.failedSegments.has(name)) {
+				this.failedSegments.add(name);
+				logger.debug(`Leaving ${name} out of the status line:`, error);
+			}
+			return '';
+		}
+	}
+
+	/**
+	 * Keep the latest budget crossing visible in the status until its budget period resets
+	 */
+	showBudgetAlert(alert: BudgetAlert): void {
+		this.budgetAlert = alert;
+		this.updateTimeInfo().catch(() => {
+			// Shown on the next periodic update instead
+		});
+	}
+
+	/**
+	 * The latest budget crossing, e.g. " · ⚠ window tokens 80%", or nothing once its period is over
+	 */
+	private async getBudgetInfo(): Promise<string> {
+		const alert = this.budgetAlert;
+		if (!alert) {
+			return '';
+		}
+
+		if ((await this.tracker.getBudgetPeriodStart(alert.status.kind)) !== alert.status.periodStart) {
+			// A newer alert may have arrived meanwhile
+			if (this.budgetAlert === alert) this.budgetAlert = null;
+			return '';
+		}
+		return ` · ⚠ ${formatBudgetAlertShort(alert)}`;
+	}
+
+	/**
+	 * The most-used weekly cap, e.g. " · opus week 42%", or nothing when no caps are configured
+	 */
+	private async getWeeklyInfo(): Promise<string> {
+		const limits = await configManager.getWeeklyLimits();
+		if (!limits) {
+			return '';
+		}
+
+		const usage = await this.tracker.getWeeklyUsage(limits);
+		const top = usage.caps.reduce((a, b) => (b.fractionUsed > a.fractionUsed ? b : a));
+		return ` · ${top.family} week ${Math.round(top.fractionUsed * 100)}%`;
+	}
+
+	/**
+	 * Time left at the current pace, e.g. " · 🔥 ~1h10m to limit", or nothing when the window will last
+	 */
+	private async getBurnInfo(): Promise<string> {
+		const projection = await this.tracker.getBurnProjection();
+		if (!projection?.limitBeforeReset || projection.minutesToLimit === null) {
+			return '';
+		}
+		return projection.minutesToLimit > 0
+			? ` · 🔥 ~${formatDuration(projection.minutesToLimit)} to limit`
+			: ' · 🔥 limit reached';
+	}
+
 	processOutput(data: string): string {
 		// Check for token updates and extract the count
 		const tokenMatch = data.match(/(\d+)\s+tokens?/);
@@ -1,9 +1,57 @@
 import { createWriteStream, WriteStream } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
-import type { SessionTracker, SessionData } from './session-tracker.js';
+import type { SessionTracker, SessionData, TokenSample } from './session-tracker.js';
 import { promises as fsp } from 'fs';
 import logManager from './log-manager.js';
+import {
+	addUsage,
+	emptyUsage,
+	hasUsage,
+	parseSpinnerTokens,
+	parseUsageLine,
+	type TokenDirection,
+	type TokenUsage,
+} from './token-usage.js';
+import { detectModelSwitch, normalizeModel } from './models.js';
+import configManager from './config.js';
+import { formatBudgetStatus, type BudgetAlert } from './budgets.js';
+import { BurnRateMeter } from './burn-rate.js';
+import type { HookRunner } from './hooks.js';
+import { detectLimitNotice, type LimitKind } from './limit-notice.js';
+
+export interface TokenMonitorOptions {
+	instanceId?: string;
+	// Model Claude was launched with; updated as in-session /model switches are detected
+	model?: string;
+	// Called when this instance is the first to see a budget threshold crossed
+	onBudgetAlert?: (alert: BudgetAlert) => void;
+	// Receives windowStart and budgetThreshold events
+	hooks?: HookRunner;
+}
+
+interface PendingUsage {
+	usage: TokenUsage;
+	totalTokens: number;
+}
+
+// Budgets are re-checked at most this often while tokens keep flowing
+const BUDGET_CHECK_INTERVAL_MS = 5000;
+
+// How often this instance's burn rate is written for other commands to read
+const BURN_RATE_PERSIST_INTERVAL_MS = 15000;
+
+// Token samples are bucketed this finely and written in batches at most this often
+const SAMPLE_BUCKET_MS = 10000;
+const SAMPLE_FLUSH_INTERVAL_MS = 30000;
+
+// Claude redraws a limit notice with the rest of the screen, so each kind is looked up at most this often
+const LIMIT_NOTICE_RECHECK_MS = 60000;
+// Enough of the previous chunk to catch a notice split between two chunks
+const LIMIT_NOTICE_TAIL_LENGTH = 256;
+
+// Only the trailing partial line is buffered; anything longer isn't a usage line we can parse
+const MAX_JSON_BUFFER_LENGTH = 1024 * 1024;
 
 export class TokenMonitor {
 	private logStream: WriteStream;
@@ -11,16 +59,44 @@ export class TokenMonitor {
 	private lastTokenCount: number = 0;
 	private sessionStarted: boolean = false;
 	private sessionTracker?: SessionTracker;
+	private instanceId?: string;
 	private actualSessionId?: string;
 	private instanceStartTokenCount: number = 0;
 	private lastReportedTokens: number = 0;
 	private sessionPromise?: Promise<SessionData>;
 	private sessionLock: boolean = false;
+	private spinnerReadings: Record<TokenDirection, number> = { input: 0, output: 0 };
+	private currentModel: string;
+	// Usage waiting to be written, keyed by the model that produced it
+	private pendingUsage = new Map<string, PendingUsage>();
+	private usageLock: boolean = false;
+	private jsonBuffer: string = '';
+	private seenMessageIds = new Set<string>();
+	private sawMessageUsage: boolean = false;
+	private onBudgetAlert?: (alert: BudgetAlert) => void;
+	private hooks?: HookRunner;
+	private lastBudgetCheck: number = 0;
+	private budgetCheckPending: boolean = false;
+	private budgetTimer?: NodeJS.Timeout;
+	private burnRate = new BurnRateMeter();
+	private lastPersistedBurnRate: number = 0;
+	private burnRateTimer?: NodeJS.Timeout;
+	// Samples waiting to be written, keyed by model and bucket
+	private pendingSamples = new Map<string, TokenSample>();
+	private sampleTimer?: NodeJS.Timeout;
+	private limitNoticeTail: string = '';
+	private lastLimitCheck = new Map<LimitKind, number>();
+	// Notices this instance already took a reset time from; seeing one again is Claude redrawing it
+	private correctedNotices = new Set<string>();
 	private static cleanupStarted: boolean = false;
 
-	constructor(sessionId: string, sessionTracker?: SessionTracker) {
+	constructor(sessionId: string, sessionTracker?: SessionTracker, options: TokenMonitorOptions = {}) {
 		this.sessionId = sessionId;
 		this.sessionTracker = sessionTracker;
+		this.instanceId = options.instanceId;
+		this.currentModel = normalizeModel(options.model);
+		this.onBudgetAlert = options.onBudgetAlert;
+		this.hooks = options.hooks;
 
 		// Start automatic log cleanup (only once per process)
 		if (!TokenMonitor.cleanupStarted) {
@@ -39,6 +115,15 @@ export class TokenMonitor {
 	}
 
 	processOutput(data: string): void {
+		// Follow in-session /model switches so later tokens are attributed to the new model
+		const switchedModel = detectModelSwitch(data);
+		if (switchedModel && switchedModel !== this.currentModel) {
+			this.log(`Model switched from ${this.currentModel} to ${switchedModel}`);
+			this.currentModel = switchedModel;
+		}
+
+		this.processLimitNotice(data);
+
 		// Look for token count in the output
 		const tokenMatch = data.match(/(\d+)\s+tokens/);
 
@@ -68,19 +153,7 @@ export class TokenMonitor {
 						);
 					}
 
-					if (this.sessionTracker && !this.sessionPromise) {
-						// Create session only once, store the promise
-						this.sessionPromise = this.sessionTracker.createSession(this.sessionId);
-						this.sessionPromise
-							.then((session: SessionData) => {
-								// Always use the returned session ID (might be an existing active session)
-								this.actualSessionId = session.id;
-								this.log(`Using session in database: ${session.id} (requested: ${this.sessionId})`);
-							})
-							.catch((err: Error) => {
-								this.log(`Failed to create session: ${err.message}`);
-							});
-					}
+					this.ensureSession();
 				}
 
 				// Update token count in database
@@ -98,10 +171,16 @@ export class TokenMonitor {
 						
 						// Increment the session tokens by just the new delta
 						this.lastReportedTokens = tokensFromThisInstance; // Track what we've reported
+						this.burnRate.record(tokenDelta);
+						this.recordSample(sessionIdToUpdate, this.currentModel, tokenDelta, emptyUsage());
 						this.sessionTracker
-							.incrementSessionTokens(sessionIdToUpdate, tokenDelta)
+							.incrementSessionTokens(sessionIdToUpdate, tokenDelta, {
+								instanceId: this.instanceId,
+								model: this.currentModel,
+							})
 							.then(() => {
 								this.sessionLock = false;
+								this.checkBudgets();
 							})
 							.catch((err: Error) => {
 								this.log(`Failed to update token count: ${err.message}`);
@@ -121,6 +200,282 @@ export class TokenMonitor {
 				this.log(`Token count increased to ${currentTokens}`);
 			}
 		}
+
+		this.processUsage(data);
+	}
+
+	/**
+	 * Record the notice Claude prints when it refuses a request at a usage limit
+	 */
+	private processLimitNotice(data: string): void {
+		const text = this.limitNoticeTail + data;
+		this.limitNoticeTail = data.slice(-LIMIT_NOTICE_TAIL_LENGTH);
+
+		const notice = detectLimitNotice(text);
+		if (!notice || !this.sessionTracker) return;
+
+		const now = Date.now();
+		if (now - (this.lastLimitCheck.get(notice.kind) ?? 0) < LIMIT_NOTICE_RECHECK_MS) return;
+		this.lastLimitCheck.set(notice.kind, now);
+
+		this.sessionTracker
+			.recordLimitHit(notice, this.instanceId)
+			.then((hit) => {
+				if (!hit) return;
+				const where = hit.sessionId
+					? `${hit.windowTokens} tokens into window ${hit.sessionId}`
+					: 'outside a tracked window';
+				this.log(`Usage limit hit ${where}: ${hit.message}`);
+			})
+			.catch((err: Error) => {
+				this.log(`Failed to record usage limit hit: ${err.message}`);
+			});
+
+		// The window limit's reset time is Claude's own word on when the window ends. A time without a date
+		// resolves to its next occurrence, so only a newly printed notice is trusted with it.
+		if (notice.kind === 'window' && notice.resetsAt && !this.correctedNotices.has(notice.message)) {
+			this.correctedNotices.add(notice.message);
+			this.sessionTracker
+				.correctActiveSessionEnd(notice.resetsAt)
+				.then((correction) => {
+					if (!correction) return;
+					const { session, previousEnd } = correction;
+					const change = `from ${previousEnd.toISOString()} to ${session.endTime.toISOString()}`;
+					this.log(`Corrected end of window ${session.id} ${change} (${notice.message})`);
+				})
+				.catch((err: Error) => {
+					this.log(`Failed to correct window end: ${err.message}`);
+				});
+		}
+	}
+
+	/**
+	 * Track the input/output/cache split alongside the running total
+	 */
+	private processUsage(data: string): void {
+		// Interactive mode: the spinner counts tokens sent and received for the current request
+		const readings = parseSpinnerTokens(data);
+		for (const direction of ['input', 'output'] as const) {
+			const count = readings[direction];
+			if (count === undefined) continue;
+
+			// A lower reading means a new request started counting from zero
+			const previous = this.spinnerReadings[direction];
+			const delta = count >= previous ? count - previous : count;
+			this.spinnerReadings[direction] = count;
+			this.getPendingUsage(this.currentModel).usage[direction] += delta;
+		}
+
+		// JSON output modes: exact usage (including cache tokens) per API message
+		this.jsonBuffer += data;
+		const lines = this.jsonBuffer.split(/\r?\n/);
+		this.jsonBuffer = (lines.pop() ?? '').slice(-MAX_JSON_BUFFER_LENGTH);
+
+		for (const line of lines) {
+			const record = parseUsageLine(line);
+			if (!record) continue;
+
+			if (record.type === 'assistant') {
+				// Claude repeats the message usage for every content block of the same message
+				if (record.messageId) {
+					if (this.seenMessageIds.has(record.messageId)) continue;
+					this.seenMessageIds.add(record.messageId);
+				}
+				this.sawMessageUsage = true;
+				this.addExactUsage(record.usage, record.model);
+			} else if (record.type === 'result' && !this.sawMessageUsage) {
+				// The final result repeats the per-message totals, so only use it when nothing else was seen
+				this.addExactUsage(record.usage, record.model);
+			}
+		}
+
+		if (Array.from(this.pendingUsage.values()).some(pending => hasUsage(pending.usage))) {
+			this.ensureSession();
+			this.flushUsage();
+		}
+	}
+
+	private getPendingUsage(model: string): PendingUsage {
+		let pending = this.pendingUsage.get(model);
+		if (!pending) {
+			pending = { usage: emptyUsage(), totalTokens: 0 };
+			this.pendingUsage.set(model, pending);
+		}
+		return pending;
+	}
+
+	private addExactUsage(usage: TokenUsage, model?: string): void {
+		// JSON output names the model per message, which beats what we inferred from the stream
+		const pending = this.getPendingUsage(model ? normalizeModel(model) : this.currentModel);
+		pending.usage = addUsage(pending.usage, usage);
+
+		// JSON output has no running "N tokens" counter, so exact usage feeds the total instead
+		if (this.lastTokenCount === 0) {
+			pending.totalTokens += usage.input + usage.output;
+		}
+	}
+
+	private flushUsage(): void {
+		if (!this.sessionTracker || this.usageLock) return;
+
+		if (!this.actualSessionId) {
+			// Session is still being created - flush once it exists
+			this.sessionPromise?.then(() => this.flushUsage()).catch(() => {});
+			return;
+		}
+
+		const pendingByModel = Array.from(this.pendingUsage.entries()).filter(([, pending]) => hasUsage(pending.usage));
+		if (pendingByModel.length === 0) return;
+		this.pendingUsage.clear();
+
+		this.usageLock = true;
+		const sessionTracker = this.sessionTracker;
+		const sessionIdToUpdate = this.actualSessionId;
+		const writeUsage = async () => {
+			for (const [model, pending] of pendingByModel) {
+				const attribution = { instanceId: this.instanceId, model };
+				this.recordSample(sessionIdToUpdate, model, pending.totalTokens, pending.usage);
+				await sessionTracker.incrementSessionTokenUsage(sessionIdToUpdate, pending.usage, attribution);
+				if (pending.totalTokens > 0) {
+					this.burnRate.record(pending.totalTokens);
+					await sessionTracker.incrementSessionTokens(sessionIdToUpdate, pending.totalTokens, attribution);
+				}
+			}
+		};
+
+		writeUsage()
+			.then(() => {
+				this.usageLock = false;
+				// Pick up anything that arrived while this update was in flight
+				this.flushUsage();
+				this.checkBudgets();
+			})
+			.catch((err: Error) => {
+				this.log(`Failed to update token usage: ${err.message}`);
+				this.usageLock = false;
+			});
+	}
+
+	/**
+	 * Compare budgets against the latest totals and report newly crossed thresholds (throttled)
+	 */
+	private checkBudgets(): void {
+		if (!this.sessionTracker || this.budgetCheckPending) return;
+
+		const elapsed = Date.now() - this.lastBudgetCheck;
+		if (elapsed < BUDGET_CHECK_INTERVAL_MS) {
+			// Check again once the interval is up so the last update of a burst isn't missed
+			if (!this.budgetTimer) {
+				this.budgetTimer = setTimeout(() => {
+					this.budgetTimer = undefined;
+					this.checkBudgets();
+				}, BUDGET_CHECK_INTERVAL_MS - elapsed);
+				this.budgetTimer.unref();
+			}
+			return;
+		}
+
+		this.budgetCheckPending = true;
+		this.lastBudgetCheck = Date.now();
+		const sessionTracker = this.sessionTracker;
+		const check = async () => {
+			const budgets = await configManager.getBudgets();
+			if (budgets.length === 0) return;
+
+			const statuses = await sessionTracker.getBudgetStatuses(budgets);
+			for (const alert of await sessionTracker.claimBudgetAlerts(statuses)) {
+				this.log(`Budget threshold ${alert.threshold}% crossed: ${formatBudgetStatus(alert.status)}`);
+				this.onBudgetAlert?.(alert);
+				this.hooks?.budgetCrossed(alert);
+			}
+		};
+
+		check()
+			.catch((err: Error) => {
+				this.log(`Failed to check budgets: ${err.message}`);
+			})
+			.finally(() => {
+				this.budgetCheckPending = false;
+			});
+	}
+
+	/**
+	 * Queue tokens for the time series; queued samples are written together once the flush interval is up
+	 */
+	private recordSample(sessionId: string, model: string, totalTokens: number, tokens: TokenUsage): void {
+		if (!this.sessionTracker) return;
+
+		const timestamp = Math.floor(Date.now() / SAMPLE_BUCKET_MS) * SAMPLE_BUCKET_MS;
+		const key = `${model}\0${timestamp}`;
+		const sample = this.pendingSamples.get(key) ?? {
+			sessionId,
+			instanceId: this.instanceId,
+			model,
+			timestamp,
+			totalTokens: 0,
+			tokens: emptyUsage(),
+		};
+		sample.totalTokens += totalTokens;
+		sample.tokens = addUsage(sample.tokens, tokens);
+		this.pendingSamples.set(key, sample);
+
+		if (!this.sampleTimer) {
+			this.sampleTimer = setTimeout(() => {
+				this.sampleTimer = undefined;
+				this.flushSamples();
+			}, SAMPLE_FLUSH_INTERVAL_MS);
+			this.sampleTimer.unref();
+		}
+	}
+
+	private flushSamples(): void {
+		if (!this.sessionTracker || this.pendingSamples.size === 0) return;
+
+		const samples = Array.from(this.pendingSamples.values());
+		this.pendingSamples.clear();
+		this.sessionTracker.recordTokenSamples(samples).catch((err: Error) => {
+			this.log(`Failed to record token samples: ${err.message}`);
+		});
+	}
+
+	/**
+	 * Write the current burn rate to this instance's row, skipping writes while it holds steady
+	 */
+	private persistBurnRate(): void {
+		if (!this.sessionTracker || !this.instanceId) return;
+
+		const tokensPerMinute = Math.round(this.burnRate.getTokensPerMinute());
+		if (tokensPerMinute === this.lastPersistedBurnRate) return;
+
+		this.lastPersistedBurnRate = tokensPerMinute;
+		this.sessionTracker.updateInstanceBurnRate(this.instanceId, tokensPerMinute).catch((err: Error) => {
+			this.log(`Failed to record burn rate: ${err.message}`);
+		});
+	}
+
+	private ensureSession(): void {
+		if (!this.sessionTracker || this.sessionPromise) return;
+
+		// Create session only once, store the promise
+		this.sessionPromise = this.sessionTracker.createSession(this.sessionId);
+		this.sessionPromise
+			.then((session: SessionData) => {
+				// Always use the returned session ID (might be an existing active session)
+				this.actualSessionId = session.id;
+				this.log(`Using session in database: ${session.id} (requested: ${this.sessionId})`);
+				this.hooks?.windowStarted(session.id);
+
+				// Link this wrapper instance to the session it joined
+				if (this.sessionTracker && this.instanceId) {
+					this.burnRateTimer = setInterval(() => this.persistBurnRate(), BURN_RATE_PERSIST_INTERVAL_MS);
+					this.burnRateTimer.unref();
+
+					return this.sessionTracker.attachInstanceToSession(this.instanceId, session.id);
+				}
+			})
+			.catch((err: Error) => {
+				this.log(`Failed to create session: ${err.message}`);
+			});
 	}
 
 	private log(message: string): void {
@@ -130,6 +485,20 @@ export class TokenMonitor {
 	}
 
 	close(): void {
+		if (this.budgetTimer) {
+			clearTimeout(this.budgetTimer);
+			this.budgetTimer = undefined;
+		}
+		if (this.burnRateTimer) {
+			clearInterval(this.burnRateTimer);
+			this.burnRateTimer = undefined;
+		}
+		if (this.sampleTimer) {
+			clearTimeout(this.sampleTimer);
+			this.sampleTimer = undefined;
+		}
+		// Write whatever is still queued; the tracker stays open until the wrapper exits
+		this.flushSamples();
 		this.log(`Session monitor closing. Total tokens used: ${this.lastTokenCount}`);
 		this.logStream.end();
 	}
@@ -0,0 +1,117 @@
+export interface TokenUsage {
+	input: number;
+	output: number;
+	cacheCreation: number;
+	cacheRead: number;
+}
+
+export interface TokenTotals extends TokenUsage {
+	total: number;
+}
+
+export type TokenDirection = 'input' | 'output';
+
+export interface UsagePayload {
+	input_tokens?: number;
+	output_tokens?: number;
+	cache_creation_input_tokens?: number;
+	cache_read_input_tokens?: number;
+}
+
+export function emptyUsage(): TokenUsage {
+	return { input: 0, output: 0, cacheCreation: 0, cacheRead: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+	return {
+		input: a.input + b.input,
+		output: a.output + b.output,
+		cacheCreation: a.cacheCreation + b.cacheCreation,
+		cacheRead: a.cacheRead + b.cacheRead,
+	};
+}
+
+export function hasUsage(usage: TokenUsage): boolean {
+	return usage.input > 0 || usage.output > 0 || usage.cacheCreation > 0 || usage.cacheRead > 0;
+}
+
+/**
+ * Convert an Anthropic API `usage` object into a TokenUsage
+ */
+export function usageFromPayload(payload: UsagePayload): TokenUsage {
+	const toCount = (value: unknown) => (typeof value === 'number' && value > 0 ? Math.floor(value) : 0);
+	return {
+		input: toCount(payload.input_tokens),
+		output: toCount(payload.output_tokens),
+		cacheCreation: toCount(payload.cache_creation_input_tokens),
+		cacheRead: toCount(payload.cache_read_input_tokens),
+	};
+}
+
+/**
+ * Parse a token count as Claude displays it ("345", "1,234", "1.2k", "3.4m")
+ */
+export function parseTokenCount(text: string): number {
+	const match = text.trim().match(/^([\d,]*\.?\d+)\s*([km])?$/i);
+	if (!match) return NaN;
+
+	const value = parseFloat(match[1].replace(/,/g, ''));
+	const suffix = match[2]?.toLowerCase();
+	const multiplier = suffix === 'k' ? 1_000 : suffix === 'm' ? 1_000_000 : 1;
+	return Math.round(value * multiplier);
+}
+
+/**
+ * Find the per-request spinner counters in interactive output, e.g. "↑ 1.2k tokens" (sent) or "↓ 345 tokens" (received).
+ * Returns the last reading for each direction in the chunk.
+ */
+export function parseSpinnerTokens(data: string): Partial<Record<TokenDirection, number>> {
+	const readings: Partial<Record<TokenDirection, number>> = {};
+	const pattern = /([↑↓])\s*([\d,]*\.?\d+\s*[km]?)\s+tokens?/gi;
+
+	for (const match of data.matchAll(pattern)) {
+		const count = parseTokenCount(match[2]);
+		if (!Number.isNaN(count)) {
+			readings[match[1] === '↑' ? 'input' : 'output'] = count;
+		}
+	}
+
+	return readings;
+}
+
+export interface UsageRecord {
+	type: string;
+	messageId?: string;
+	model?: string;
+	usage: TokenUsage;
+}
+
+/**
+ * Extract usage from one line of Claude's JSON output (`--output-format json` or `stream-json`).
+ * Returns null for lines that aren't JSON or carry no usage.
+ */
+export function parseUsageLine(line: string): UsageRecord | null {
+	const trimmed = line.trim();
+	if (!trimmed.startsWith('{') || !trimmed.includes('"usage"')) {
+		return null;
+	}
+
+	let parsed: { type?: string; usage?: UsagePayload; message?: { id?: string; model?: string; usage?: UsagePayload } };
+	try {
+		parsed = JSON.parse(trimmed);
+	} catch (_error) {
+		return null;
+	}
+
+	const payload = parsed.message?.usage ?? parsed.usage;
+	if (!payload || typeof payload !== 'object') {
+		return null;
+	}
+
+	return {
+		type: parsed.type ?? 'unknown',
+		messageId: parsed.message?.id,
+		model: parsed.message?.model,
+		usage: usageFromPayload(payload),
+	};
+}
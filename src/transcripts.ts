@@ -0,0 +1,151 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import path from 'path';
+import { homedir } from 'os';
+import type { BackfillMessage } from './session-tracker.js';
+import { ValidationError } from './errors.js';
+import { hasUsage, usageFromPayload, type UsagePayload } from './token-usage.js';
+import { UNKNOWN_MODEL } from './models.js';
+
+// Claude writes placeholder assistant messages (e.g. for API errors) that never reached a model
+const SYNTHETIC_MODEL = '<synthetic>';
+
+interface TranscriptEntry {
+	type?: string;
+	uuid?: string;
+	sessionId?: string;
+	requestId?: string;
+	timestamp?: string;
+	cwd?: string;
+	message?: {
+		id?: string;
+		model?: string;
+		usage?: UsagePayload;
+	};
+}
+
+export interface TranscriptScan {
+	files: number;
+	messages: BackfillMessage[];
+}
+
+/**
+ * Where Claude Code keeps its conversation transcripts: every `projects` directory under
+ * CLAUDE_CONFIG_DIR (comma-separated), or the default ~/.config/claude and ~/.claude locations
+ */
+export async function getTranscriptDirs(): Promise<string[]> {
+	const configDirs = process.env.CLAUDE_CONFIG_DIR
+		? process.env.CLAUDE_CONFIG_DIR.split(',').map((dir) => dir.trim()).filter(Boolean)
+		: [path.join(homedir(), '.config', 'claude'), path.join(homedir(), '.claude')];
+
+	const dirs: string[] = [];
+	for (const configDir of configDirs) {
+		const projectsDir = path.join(configDir, 'projects');
+		if (await isDirectory(projectsDir)) {
+			dirs.push(projectsDir);
+		}
+	}
+	return dirs;
+}
+
+/**
+ * Read assistant message usage from every transcript under the given directories.
+ * Messages repeated across content blocks, resumed conversations and directories are returned once.
+ */
+export async function scanTranscripts(dirs: string[], since?: Date): Promise<TranscriptScan> {
+	const messages = new Map<string, BackfillMessage>();
+	let files = 0;
+
+	for (const dir of dirs) {
+		if (!(await isDirectory(dir))) {
+			throw new ValidationError(`Transcript directory not found: ${dir}`);
+		}
+
+		for (const filePath of (await findTranscriptFiles(dir)).sort()) {
+			files++;
+			for await (const message of readTranscriptFile(filePath)) {
+				if (since && message.timestamp < since) continue;
+				if (!messages.has(message.messageId)) {
+					messages.set(message.messageId, message);
+				}
+			}
+		}
+	}
+
+	return { files, messages: Array.from(messages.values()) };
+}
+
+/**
+ * Every .jsonl file below a directory. Walked by hand: `readdir` only recurses from Node 18.17.
+ */
+async function findTranscriptFiles(dir: string): Promise<string[]> {
+	const files: string[] = [];
+	for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...(await findTranscriptFiles(entryPath)));
+		} else if (entry.isFile() && entry.name.endsWith('.jsonl')) {
+			files.push(entryPath);
+		}
+	}
+	return files;
+}
+
+async function* readTranscriptFile(filePath: string): AsyncGenerator<BackfillMessage> {
+	const lines = createInterface({ input: createReadStream(filePath, { encoding: 'utf-8' }), crlfDelay: Infinity });
+	for await (const line of lines) {
+		const message = parseTranscriptLine(line);
+		if (message) {
+			yield message;
+		}
+	}
+}
+
+/**
+ * Extract the usage of one assistant message from a transcript line, or null for anything else
+ */
+export function parseTranscriptLine(line: string): BackfillMessage | null {
+	const trimmed = line.trim();
+	if (!trimmed.startsWith('{') || !trimmed.includes('"usage"')) {
+		return null;
+	}
+
+	let entry: TranscriptEntry;
+	try {
+		entry = JSON.parse(trimmed);
+	} catch (_error) {
+		// Partially written line from a conversation still in progress
+		return null;
+	}
+
+	const message = entry.message;
+	if (entry.type !== 'assistant' || !message?.usage || message.model === SYNTHETIC_MODEL) {
+		return null;
+	}
+
+	const timestamp = new Date(entry.timestamp ?? '');
+	const id = message.id ?? entry.uuid;
+	const usage = usageFromPayload(message.usage);
+	if (!id || Number.isNaN(timestamp.getTime()) || !hasUsage(usage)) {
+		return null;
+	}
+
+	return {
+		// Together the message and request ids identify one API call, however many lines Claude logged for it
+		messageId: entry.requestId ? `${id}:${entry.requestId}` : id,
+		conversationId: entry.sessionId ?? null,
+		timestamp,
+		model: message.model ?? UNKNOWN_MODEL,
+		cwd: entry.cwd ?? null,
+		usage,
+	};
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+	try {
+		return (await fs.stat(dir)).isDirectory();
+	} catch (_error) {
+		return false;
+	}
+}
@@ -1,32 +1,130 @@
 // Type definitions for santa-claude
 
-export interface SessionRow {
+import type { Database } from 'sqlite';
+import type sqlite3 from 'sqlite3';
+
+export type SessionDatabase = Database<sqlite3.Database, sqlite3.Statement>;
+
+export interface TokenColumns {
+	input_tokens: number | null;
+	output_tokens: number | null;
+	cache_creation_tokens: number | null;
+	cache_read_tokens: number | null;
+}
+
+export interface SessionRow extends TokenColumns {
 	id: string;
 	start_time: number;
 	end_time: number;
 	total_tokens: number | null;
+	source: string;
+}
+
+export interface InstanceRow extends TokenColumns {
+	id: string;
+	session_id: string | null;
+	pid: number | null;
+	cwd: string | null;
+	args: string;
+	start_time: number;
+	end_time: number | null;
+	exit_code: number | null;
+	total_tokens: number | null;
+	model: string | null;
+	project: string | null;
+}
+
+export interface SessionWithInstanceCountRow extends SessionRow {
+	instance_count: number;
+}
+
+export interface ImportedSessionRow extends TokenColumns {
+	source_id: string;
+	target_id: string;
+	imported_at: number;
+	// NULL for sessions imported before contributions were recorded
+	total_tokens: number | null;
+}
+
+export interface ModelUsageRow extends TokenColumns {
+	session_id: string;
+	instance_id: string;
+	model: string;
+	total_tokens: number | null;
+	first_seen: number;
+	last_seen: number;
 }
 
-export interface DailyUsageRow {
-	date: string;
+export interface WeeklyModelUsageRow extends ModelUsageRow {
+	// Token samples of a row that started before the weekly reset: all of them, and those since the reset
+	sampled_tokens: number | null;
+	sampled_tokens_since: number | null;
+}
+
+export interface TokenSeriesRow extends TokenColumns {
+	bucket: number;
+	total_tokens: number | null;
+}
+
+export interface WebhookDeliveryRow {
+	id: string;
+	url: string;
+	event: string;
+	body: string;
+	attempts: number;
+	next_attempt_at: number;
+	last_error: string | null;
+	created_at: number;
+}
+
+export interface LimitHitRow {
+	id: number;
+	session_id: string | null;
+	instance_id: string | null;
+	kind: string;
+	hit_at: number;
+	window_tokens: number;
+	message: string;
+}
+
+export interface LimitHitStatsRow {
+	kind: string;
+	hits: number;
+	tracked_hits: number;
+	average_tokens: number | null;
+	min_tokens: number | null;
+	max_tokens: number | null;
+}
+
+export interface MessageIdRow {
+	message_id: string;
+}
+
+export interface ProjectUsageRow extends TokenColumns {
+	project: string;
 	sessions: number;
-	total_tokens: number;
+	instances: number;
+	total_tokens: number | null;
 }
 
-export interface HourCountRow {
+export interface HourDayCountRow {
+	dow: string;
 	hour: string;
 	count: number;
 }
 
-export interface DayOfWeekCountRow {
-	dow: string;
-	count: number;
+export interface EndTimeRow {
+	end_time: number | null;
+}
+
+export interface BurnRateRow {
+	rate: number | null;
 }
 
 export interface CountRow {
 	count: number;
 }
 
-export interface TokenStatsRow {
-	total_tokens: number | null;
-}
\ No newline at end of file
+export interface SchemaVersionRow {
+	version: number | null;
+}
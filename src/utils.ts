@@ -1,4 +1,7 @@
 import { readFileSync } from 'fs';
+import { addDays } from 'date-fns';
+import type { TokenUsage } from './token-usage.js';
+import { ValidationError } from './errors.js';
 
 export function getOrdinalSuffix(day: number): string {
 	if (day >= 11 && day <= 13) return 'th';
@@ -26,6 +29,99 @@ export function formatDate(date: Date): string {
 	return `${month}/${day}/${year} ${displayHours}:${displayMinutes}${ampm}`;
 }
 
+/**
+ * Start of the billing cycle containing `now` for a subscription that renews on `renewalDay`
+ */
+export function getBillingCycleStart(renewalDay: number, now: Date = new Date()): Date {
+	if (now.getDate() >= renewalDay) {
+		// We're past the renewal day this month
+		return new Date(now.getFullYear(), now.getMonth(), renewalDay);
+	}
+	// We haven't reached the renewal day yet, so cycle started last month
+	return new Date(now.getFullYear(), now.getMonth() - 1, renewalDay);
+}
+
+/**
+ * Parse a date given on the command line: a calendar date ("2025-08-01", local midnight) or a full ISO timestamp.
+ * With `endOfDay`, a bare calendar date means the end of that day so ranges include it.
+ */
+export function parseDateOption(value: string, options: { endOfDay?: boolean } = {}): Date {
+	const invalid = () => new ValidationError(`Invalid date "${value}" (use YYYY-MM-DD or an ISO timestamp)`);
+
+	const dateOnly = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (dateOnly) {
+		const [year, month, day] = [Number(dateOnly[1]), Number(dateOnly[2]), Number(dateOnly[3])];
+		const date = new Date(year, month - 1, day);
+		// Reject dates that rolled over into the next month (e.g. 2025-02-30)
+		if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+			throw invalid();
+		}
+		return options.endOfDay ? addDays(date, 1) : date;
+	}
+
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw invalid();
+	}
+	return date;
+}
+
+/**
+ * Parse a point in time given on the command line: "14:30" (today, local time) or a full ISO timestamp
+ */
+export function parseTimeOption(value: string, now: Date = new Date()): Date {
+	const time = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+	if (time) {
+		const [hours, minutes] = [Number(time[1]), Number(time[2])];
+		if (hours > 23 || minutes > 59) {
+			throw new ValidationError(`Invalid time "${value}" (use HH:mm or an ISO timestamp)`);
+		}
+		const date = new Date(now);
+		date.setHours(hours, minutes, 0, 0);
+		return date;
+	}
+
+	if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+		throw new ValidationError(`"${value}" is a date; give a time too, e.g. ${value.trim()}T14:30`);
+	}
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new ValidationError(`Invalid time "${value}" (use HH:mm or an ISO timestamp)`);
+	}
+	return date;
+}
+
+export function formatTokenCount(count: number): string {
+	if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+	if (count >= 10_000) return `${Math.round(count / 1_000)}k`;
+	if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+	return count.toString();
+}
+
+export function formatTokenSplit(usage: TokenUsage): string {
+	return `in ${formatTokenCount(usage.input)} · out ${formatTokenCount(usage.output)} · cache ${formatTokenCount(
+		usage.cacheCreation
+	)}w/${formatTokenCount(usage.cacheRead)}r`;
+}
+
+export function formatCost(usd: number): string {
+	return usd >= 0.01 || usd === 0 ? `$${usd.toFixed(2)}` : '<$0.01';
+}
+
+/**
+ * Whether a process with this pid is running on this machine
+ */
+export function isProcessAlive(pid: number | null): boolean {
+	if (!pid) return false;
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means it exists but belongs to someone else
+		return (error as NodeJS.ErrnoException).code === 'EPERM';
+	}
+}
+
 export function getPackageVersion(): string {
 	try {
 		// Resolve package.json relative to compiled file location (dist/*.js)
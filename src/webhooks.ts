@@ -0,0 +1,162 @@
+import http from 'http';
+import https from 'https';
+import { createHmac } from 'crypto';
+import { URL } from 'url';
+import type { SessionTracker, WebhookDelivery } from './session-tracker.js';
+import { ValidationError } from './errors.js';
+import logger from './logger.js';
+import { HOOK_EVENTS, type HookEvent } from './hooks.js';
+import { getPackageVersion } from './utils.js';
+
+const DELIVERY_TIMEOUT_MS = 5000;
+// Failed deliveries wait 1 minute, then twice as long after each further failure, up to 6 hours
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+// Roughly a day and a half of retries before a delivery is dropped
+const MAX_DELIVERY_ATTEMPTS = 15;
+// A delivery being attempted is hidden from other processes for this long
+const DELIVERY_LEASE_MS = 60 * 1000;
+const MAX_DELIVERIES_PER_FLUSH = 50;
+
+export const SIGNATURE_HEADER = 'X-Santa-Claude-Signature';
+
+export interface Webhook {
+	url: string;
+	secret?: string;
+	// Events to send; all of them when not configured
+	events: HookEvent[];
+}
+
+export interface WebhookConfig {
+	url?: string;
+	secret?: string;
+	events?: string[];
+}
+
+/**
+ * Validate the `webhooks` list from config.json
+ */
+export function parseWebhooks(value: WebhookConfig[]): Webhook[] {
+	if (!Array.isArray(value)) {
+		throw new ValidationError('webhooks must be a list of { url, secret, events }');
+	}
+
+	return value.map((webhook, index) => {
+		const label = `webhooks[${index}]`;
+		if (!webhook || typeof webhook.url !== 'string') {
+			throw new ValidationError(`${label} needs a url`);
+		}
+
+		let protocol: string;
+		try {
+			protocol = new URL(webhook.url).protocol;
+		} catch (_error) {
+			throw new ValidationError(`${label} has an invalid url "${webhook.url}"`);
+		}
+		if (protocol !== 'http:' && protocol !== 'https:') {
+			throw new ValidationError(`${label} url must be http or https`);
+		}
+
+		if (webhook.secret !== undefined && (typeof webhook.secret !== 'string' || !webhook.secret)) {
+			throw new ValidationError(`${label} secret must be a non-empty string`);
+		}
+
+		const events = webhook.events ?? HOOK_EVENTS;
+		if (!Array.isArray(events)) {
+			throw new ValidationError(`${label} events must be a list`);
+		}
+		for (const event of events) {
+			if (!HOOK_EVENTS.includes(event as HookEvent)) {
+				throw new ValidationError(`${label} has unknown event "${event}" (expected ${HOOK_EVENTS.join(', ')})`);
+			}
+		}
+
+		return { url: webhook.url, secret: webhook.secret, events: events as HookEvent[] };
+	});
+}
+
+/**
+ * Hex HMAC-SHA256 of the exact request body, sent as `sha256=<hex>`
+ */
+export function signBody(body: string, secret: string): string {
+	return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function postJson(url: string, body: string, headers: Record<string, string>): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const target = new URL(url);
+		const request = (target.protocol === 'https:' ? https : http).request(
+			target,
+			{
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'Content-Length': Buffer.byteLength(body).toString(),
+					'User-Agent': `santa-claude/${getPackageVersion()}`,
+					...headers,
+				},
+				timeout: DELIVERY_TIMEOUT_MS,
+			},
+			(response) => {
+				// Drain the body so the socket is released
+				response.resume();
+				const status = response.statusCode ?? 0;
+				if (status >= 200 && status < 300) {
+					resolve();
+				} else {
+					reject(new Error(`HTTP ${status}`));
+				}
+			}
+		);
+		request.on('timeout', () => request.destroy(new Error(`No response after ${DELIVERY_TIMEOUT_MS / 1000}s`)));
+		request.on('error', reject);
+		request.end(body);
+	});
+}
+
+async function deliver(webhook: Webhook, delivery: WebhookDelivery): Promise<void> {
+	const headers: Record<string, string> = {
+		'X-Santa-Claude-Event': delivery.event,
+		'X-Santa-Claude-Delivery': delivery.id,
+	};
+	if (webhook.secret) {
+		headers[SIGNATURE_HEADER] = signBody(delivery.body, webhook.secret);
+	}
+	await postJson(webhook.url, delivery.body, headers);
+}
+
+/**
+ * Send queued deliveries that are due. Failures stay queued with a growing delay, so a later run retries them.
+ */
+export async function flushWebhooks(tracker: SessionTracker, webhooks: Webhook[]): Promise<void> {
+	const now = Date.now();
+	for (const delivery of await tracker.getDueWebhookDeliveries(now, MAX_DELIVERIES_PER_FLUSH)) {
+		// Secrets aren't stored with the queue: a webhook removed from config.json drops its deliveries
+		const webhook = webhooks.find((candidate) => candidate.url === delivery.url);
+		if (!webhook) {
+			await tracker.deleteWebhookDelivery(delivery.id);
+			continue;
+		}
+		if (!(await tracker.leaseWebhookDelivery(delivery.id, now, now + DELIVERY_LEASE_MS))) {
+			// Another process is sending it
+			continue;
+		}
+
+		try {
+			await deliver(webhook, delivery);
+			await tracker.deleteWebhookDelivery(delivery.id);
+		} catch (error) {
+			const attempts = delivery.attempts + 1;
+			const message = (error as Error).message;
+			if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+				logger.debug(`Dropping ${delivery.event} webhook to ${delivery.url} after ${attempts} attempts`, message);
+				await tracker.deleteWebhookDelivery(delivery.id);
+				continue;
+			}
+
+			const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+			logger.debug(`${delivery.event} webhook to ${delivery.url} failed, retrying in ${delay / 1000}s`, message);
+			await tracker.rescheduleWebhookDelivery(delivery.id, attempts, Date.now() + delay, message);
+		}
+	}
+}
@@ -0,0 +1,121 @@
+import { addDays, format } from 'date-fns';
+import { ValidationError } from './errors.js';
+import { formatTokenCount } from './utils.js';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Cap key covering every model together
+export const ALL_MODELS = 'all';
+
+export interface WeeklyCap {
+	hours?: number;
+	tokens?: number;
+}
+
+export interface WeeklyLimits {
+	// 0 = Sunday
+	resetDay: number;
+	resetHour: number;
+	resetMinute: number;
+	// Keyed by model family ("opus", "sonnet", ...) or "all"
+	caps: Record<string, WeeklyCap>;
+}
+
+export interface WeeklyCapUsage {
+	family: string;
+	cap: WeeklyCap;
+	hoursUsed: number;
+	tokensUsed: number;
+	// Share of the most constrained dimension of the cap, 0-1 (can exceed 1)
+	fractionUsed: number;
+}
+
+export interface WeeklyUsage {
+	weekStart: Date;
+	resetsAt: Date;
+	caps: WeeklyCapUsage[];
+}
+
+/**
+ * Validate the `weeklyLimits` block from config.json.
+ * `resetDay` is a weekday name or 0-6 (Sunday first); `resetTime` is local "HH:mm".
+ */
+export function parseWeeklyLimits(value: {
+	resetDay?: string | number;
+	resetTime?: string;
+	caps?: Record<string, WeeklyCap>;
+}): WeeklyLimits {
+	const day = value.resetDay ?? 0;
+	const resetDay = typeof day === 'number' ? day : WEEKDAYS.indexOf(day.trim().toLowerCase());
+	if (!Number.isInteger(resetDay) || resetDay < 0 || resetDay > 6) {
+		throw new ValidationError(`Invalid resetDay "${day}" (use a weekday name or 0-6, Sunday first)`);
+	}
+
+	const time = (value.resetTime ?? '00:00').trim().match(/^(\d{1,2}):(\d{2})$/);
+	const resetHour = time ? Number(time[1]) : NaN;
+	const resetMinute = time ? Number(time[2]) : NaN;
+	if (!(resetHour >= 0 && resetHour < 24 && resetMinute >= 0 && resetMinute < 60)) {
+		throw new ValidationError(`Invalid resetTime "${value.resetTime}" (use HH:mm)`);
+	}
+
+	const caps: Record<string, WeeklyCap> = {};
+	for (const [family, cap] of Object.entries(value.caps ?? {})) {
+		for (const [field, limit] of Object.entries(cap ?? {})) {
+			if (!['hours', 'tokens'].includes(field) || typeof limit !== 'number' || !(limit > 0)) {
+				throw new ValidationError(`Invalid weekly cap ${family}.${field} (use hours or tokens, a positive number)`);
+			}
+		}
+		if (cap?.hours === undefined && cap?.tokens === undefined) {
+			throw new ValidationError(`Weekly cap for ${family} needs hours or tokens`);
+		}
+		caps[family.trim().toLowerCase()] = { hours: cap.hours, tokens: cap.tokens };
+	}
+
+	return { resetDay, resetHour, resetMinute, caps };
+}
+
+/**
+ * Most recent weekly reset at or before `now`
+ */
+export function getWeekStart(limits: WeeklyLimits, now: Date = new Date()): Date {
+	const reset = new Date(now.getFullYear(), now.getMonth(), now.getDate(), limits.resetHour, limits.resetMinute);
+	const daysSinceReset = (now.getDay() - limits.resetDay + 7) % 7;
+	const start = addDays(reset, -daysSinceReset);
+	// Reset day is today but its time hasn't come yet
+	return start > now ? addDays(start, -7) : start;
+}
+
+export function getCapFraction(cap: WeeklyCap, hoursUsed: number, tokensUsed: number): number {
+	const fractions: number[] = [];
+	if (cap.hours) fractions.push(hoursUsed / cap.hours);
+	if (cap.tokens) fractions.push(tokensUsed / cap.tokens);
+	return Math.max(0, ...fractions);
+}
+
+export function formatHours(hours: number): string {
+	return `${hours.toFixed(1)}h`;
+}
+
+/**
+ * e.g. "opus: 3.2h of 24h used (13%), 20.8h left"
+ */
+export function formatCapUsage(usage: WeeklyCapUsage): string {
+	const parts: string[] = [];
+	if (usage.cap.hours) {
+		const left = Math.max(0, usage.cap.hours - usage.hoursUsed);
+		parts.push(`${formatHours(usage.hoursUsed)} of ${usage.cap.hours}h used, ${formatHours(left)} left`);
+	}
+	if (usage.cap.tokens) {
+		const left = Math.max(0, usage.cap.tokens - usage.tokensUsed);
+		parts.push(
+			`${formatTokenCount(usage.tokensUsed)} of ${formatTokenCount(usage.cap.tokens)} tokens used, ${formatTokenCount(
+				left
+			)} left`
+		);
+	}
+	return `${usage.family}: ${parts.join('; ')} (${Math.round(usage.fractionUsed * 100)}%)`;
+}
+
+export function formatWeeklyReset(resetsAt: Date): string {
+	return format(resetsAt, 'EEE h:mmaaa');
+}